@@ -0,0 +1,10 @@
+/** @type {import("ts-jest").JestConfigWithTsJest} */
+module.exports = {
+    // @arcgis/core is only published as ES modules, so the tests run as ES modules too.
+    extensionsToTreatAsEsm: [".ts"],
+    roots: ["<rootDir>/src"],
+    testEnvironment: "node",
+    transform: {
+        "^.+\\.ts$": ["ts-jest", { useESM: true }],
+    },
+};
@@ -0,0 +1,345 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import Graphic from "@arcgis/core/Graphic";
+import Field from "@arcgis/core/layers/support/Field";
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
+import type { IActivityHandler } from "@vertigis/workflow";
+import {
+    LinearReferencingConfig,
+    MeasureUnits,
+} from "../models/LinearReferencingConfig";
+import {
+    createIntervals,
+    createLinearEvents,
+    LinearEvent,
+    summarizeEvents,
+} from "../utils/eventUtils";
+import {
+    createRouteSegmentsLoader,
+    getRouteGeometryBetweenMeasures,
+} from "../utils/geometryUtils";
+import { convertUnits } from "../utils/unitUtils";
+
+interface AggregateRouteEventsInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * @displayName Feature Set
+     * @description The Feature Set of linear events to summarize.
+     * @required
+     */
+    featureSet: FeatureSet;
+
+    /**
+     * The name of the field that contains the route ID of the events, also used for the route ID of the
+     * intervals. If not provided all events will be on the current route, and the intervals use "routeId".
+     *
+     * @displayName Route ID Field Name
+     * @description The name of the field that contains the route ID of the events, also used for the route ID of the
+     * intervals. If not provided all events will be on the current route, and the intervals use "routeId".
+     */
+    routeIdFieldName?: string;
+
+    /**
+     * The name of the field that contains the measure where the events begin.
+     *
+     * @displayName From Measure Field Name
+     * @description The name of the field that contains the measure where the events begin.
+     * @required
+     */
+    fromMeasureFieldName: string;
+
+    /**
+     * The name of the field that contains the measure where the events end.
+     *
+     * @displayName To Measure Field Name
+     * @description The name of the field that contains the measure where the events end.
+     * @required
+     */
+    toMeasureFieldName: string;
+
+    /**
+     * The names of the fields to calculate statistics for.
+     *
+     * @displayName Field Names
+     * @description The names of the fields to calculate statistics for.
+     * @required
+     */
+    fieldNames: string[];
+
+    /**
+     * The length of each reporting interval. The intervals begin at multiples of this length. If not provided
+     * each route, or the current range, is one interval.
+     *
+     * @displayName Interval Length
+     * @description The length of each reporting interval. The intervals begin at multiples of this length. If not provided
+     * each route, or the current range, is one interval.
+     */
+    intervalLength?: number;
+
+    /**
+     * The unit of the interval length and of the returned lengths. If not provided will use the measure unit of the segments.
+     *
+     * @displayName Interval Unit
+     * @description The unit of the interval length and of the returned lengths. If not provided will use the measure unit of the segments.
+     */
+    intervalUnit?: MeasureUnits;
+
+    /**
+     * The name of the field the length of each interval covered by events is assigned to. Default is "coveredLength".
+     *
+     * @displayName Covered Length Field Name
+     * @description The name of the field the length of each interval covered by events is assigned to. Default is "coveredLength".
+     */
+    coveredLengthFieldName?: string;
+
+    /**
+     * Whether to only report on the current range. Otherwise each route is reported on from the start
+     * of its first event to the end of its last event. Default is false.
+     *
+     * @displayName Use Current Range
+     * @description Whether to only report on the current range. Otherwise each route is reported on from the start
+     * of its first event to the end of its last event. Default is false.
+     */
+    useCurrentRange?: boolean;
+
+    /**
+     * The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     *
+     * @displayName Spatial Reference
+     * @description The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     */
+    spatialReference?: SpatialReference;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface AggregateRouteEventsOutputs {
+    /**
+     * A line feature for each interval. The attributes are the route ID, the from and to measures, the length
+     * covered by events, and for each field the AVG_, SUM_, MIN_, MAX_ and DOMINANT_ statistics.
+     *
+     * @displayName Feature Set
+     * @description A line feature for each interval. The attributes are the route ID, the from and to measures, the length
+     * covered by events, and for each field the AVG_, SUM_, MIN_, MAX_ and DOMINANT_ statistics.
+     */
+    featureSet: FeatureSet;
+}
+
+/**
+ * Calculate length-weighted averages, sums, minimums, maximums and dominant values of fields
+ * of linear events for each reporting interval along a route.
+ *
+ * @displayName Aggregate Route Events
+ * @category VertiGIS Inline
+ * @description Calculate length-weighted averages, sums, minimums, maximums and dominant values of fields
+ * of linear events for each reporting interval along a route.
+ */
+export default class AggregateRouteEventsActivity implements IActivityHandler {
+    async execute(
+        inputs: AggregateRouteEventsInputs,
+    ): Promise<AggregateRouteEventsOutputs> {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr =
+            inputs.spatialReference ??
+            (inputs.inlineManager.spatialReference as SpatialReference);
+        const currentRouteId = inputs.inlineManager.currentRoute
+            ?.routeId as string;
+        const intervalUnit = inputs.intervalUnit ?? lrs.segmentsMeasureUnit;
+        const routeIdFieldName = inputs.routeIdFieldName ?? "routeId";
+        const coveredLengthFieldName =
+            inputs.coveredLengthFieldName ?? "coveredLength";
+        const fields = createOutputFields(
+            inputs,
+            routeIdFieldName,
+            coveredLengthFieldName,
+        );
+
+        // The measures of the events are in the measure unit of the segments.
+        const intervalLength =
+            inputs.intervalLength &&
+            convertUnits(
+                inputs.intervalLength,
+                intervalUnit,
+                lrs.segmentsMeasureUnit,
+            );
+
+        const events = createLinearEvents(
+            inputs.featureSet.features,
+            inputs.fromMeasureFieldName,
+            inputs.toMeasureFieldName,
+            inputs.routeIdFieldName,
+            currentRouteId,
+        );
+
+        // Group the events by route.
+        const eventsByRoute = new Map<string, LinearEvent[]>();
+        for (const event of events) {
+            if (!eventsByRoute.has(event.routeId)) {
+                eventsByRoute.set(event.routeId, []);
+            }
+            eventsByRoute.get(event.routeId)!.push(event);
+        }
+
+        // Work out the range to report on for each route.
+        const ranges = new Map<string, [number, number]>();
+        if (inputs.useCurrentRange) {
+            const range = inputs.inlineManager.currentRange;
+            if (!currentRouteId || !range) {
+                throw new Error("There is no current range.");
+            }
+            ranges.set(`${currentRouteId}`, [
+                range.beginStation.measure as number,
+                range.endStation.measure as number,
+            ]);
+        } else {
+            for (const event of events) {
+                const range = ranges.get(event.routeId);
+                ranges.set(
+                    event.routeId,
+                    range
+                        ? [
+                              Math.min(range[0], event.from),
+                              Math.max(range[1], event.to),
+                          ]
+                        : [event.from, event.to],
+                );
+            }
+        }
+
+        // Each route is only queried once, no matter how many intervals are on it.
+        const getRoute = createRouteSegmentsLoader(lrs, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
+        // The intervals are ranges of measures, even when stations are calculated from the segment attributes.
+        const measureConfig = {
+            ...lrs,
+            calculateStationUsingAttributes: false,
+        };
+
+        const featureSet = new FeatureSet({
+            fields,
+            geometryType: "polyline",
+            spatialReference: sr,
+        });
+
+        for (const [routeId, [from, to]] of ranges) {
+            const routeEvents = eventsByRoute.get(routeId) ?? [];
+            const route = await getRoute(routeId);
+
+            for (const interval of createIntervals(from, to, intervalLength)) {
+                const { coveredLength, summaries } = summarizeEvents(
+                    routeEvents,
+                    interval,
+                    inputs.fieldNames,
+                );
+
+                const attributes: Record<string, any> = {
+                    [routeIdFieldName]: routeId,
+                    [inputs.fromMeasureFieldName]: interval.from,
+                    [inputs.toMeasureFieldName]: interval.to,
+                    [coveredLengthFieldName]: convertUnits(
+                        coveredLength,
+                        lrs.segmentsMeasureUnit,
+                        intervalUnit,
+                    ),
+                };
+                for (const [fieldName, summary] of Object.entries(summaries)) {
+                    attributes[`AVG_${fieldName}`] = summary.average;
+                    attributes[`SUM_${fieldName}`] = summary.sum;
+                    attributes[`MIN_${fieldName}`] = summary.min;
+                    attributes[`MAX_${fieldName}`] = summary.max;
+                    attributes[`DOMINANT_${fieldName}`] = summary.dominant;
+                }
+
+                const geometry = route
+                    ? getRouteGeometryBetweenMeasures(
+                          route,
+                          interval.from,
+                          interval.to,
+                          measureConfig,
+                      )
+                    : null;
+
+                featureSet.features.push(
+                    new Graphic({
+                        attributes,
+                        geometry: geometry as __esri.Geometry,
+                    }),
+                );
+            }
+        }
+
+        return {
+            featureSet,
+        };
+    }
+}
+
+/**
+ * Create the fields for the route ID, measures and covered length of the intervals, and for
+ * the statistics of each summarized field.
+ * @throws An error if two of the fields would have the same name.
+ */
+function createOutputFields(
+    inputs: AggregateRouteEventsInputs,
+    routeIdFieldName: string,
+    coveredLengthFieldName: string,
+): Field[] {
+    const fields = [
+        new Field({ name: routeIdFieldName, type: "string" }),
+        new Field({ name: inputs.fromMeasureFieldName, type: "double" }),
+        new Field({ name: inputs.toMeasureFieldName, type: "double" }),
+        new Field({ name: coveredLengthFieldName, type: "double" }),
+    ];
+
+    for (const fieldName of inputs.fieldNames) {
+        // The dominant value keeps the type of the field it comes from.
+        const sourceField = inputs.featureSet.fields?.find(
+            (field) => field.name === fieldName,
+        );
+
+        fields.push(
+            new Field({ name: `AVG_${fieldName}`, type: "double" }),
+            new Field({ name: `SUM_${fieldName}`, type: "double" }),
+            new Field({ name: `MIN_${fieldName}`, type: "double" }),
+            new Field({ name: `MAX_${fieldName}`, type: "double" }),
+            new Field({
+                name: `DOMINANT_${fieldName}`,
+                type:
+                    sourceField && sourceField.type !== "oid"
+                        ? sourceField.type
+                        : "string",
+            }),
+        );
+    }
+
+    // Field names are not case sensitive, so values would otherwise overwrite each other.
+    const names = new Set<string>();
+    for (const field of fields) {
+        const name = field.name.toUpperCase();
+        if (names.has(name)) {
+            throw new Error(
+                `The output field name "${field.name}" is used more than once.`,
+            );
+        }
+        names.add(name);
+    }
+
+    return fields;
+}
@@ -0,0 +1,26 @@
+import type { IActivityHandler } from "@vertigis/workflow";
+import { getSegmentCache } from "../utils/segmentCache";
+
+interface ClearRouteCacheInputs {
+    /**
+     * The ID of the route to remove from the cache. If not provided all routes are removed.
+     *
+     * @displayName Route ID
+     * @description The ID of the route to remove from the cache. If not provided all routes are removed.
+     */
+    routeId?: string;
+}
+
+/**
+ * Remove routes from the cache of route segments, so that they are queried again the next time they are used.
+ *
+ * @displayName Clear Route Cache
+ * @category VertiGIS Inline
+ * @description Remove routes from the cache of route segments, so that they are queried again the next time they are used.
+ */
+export default class ClearRouteCacheActivity implements IActivityHandler {
+    execute(inputs: ClearRouteCacheInputs) {
+        getSegmentCache()?.clear(inputs.routeId);
+        return {};
+    }
+}
@@ -0,0 +1,118 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import type { IActivityHandler } from "@vertigis/workflow";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { RouteInfo } from "../models/RouteInfo";
+import { getRouteMeasureBoundary } from "../utils/geometryUtils";
+import { queryForRoutes } from "../utils/queryUtils";
+import { getRouteInfoFromSegment } from "../utils/routeUtils";
+
+interface FindRoutesInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * Part of the name of the routes to find. Case is ignored.
+     *
+     * @displayName Route Name
+     * @description Part of the name of the routes to find. Case is ignored.
+     */
+    routeName?: string;
+
+    /**
+     * Part of the series of the routes to find. Case is ignored.
+     *
+     * @displayName Series
+     * @description Part of the series of the routes to find. Case is ignored.
+     */
+    series?: string;
+
+    /**
+     * The value of the additional route selection field of the routes to find. Text fields
+     * match any part of the value, ignoring case.
+     *
+     * @displayName Additional Field Value
+     * @description The value of the additional route selection field of the routes to find. Text fields
+     * match any part of the value, ignoring case.
+     */
+    additionalValue?: string;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface FindRoutesOutputs {
+    /**
+     * The distinct routes that match the search, ordered by route name.
+     *
+     * @displayName Routes
+     * @description The distinct routes that match the search, ordered by route name.
+     */
+    routes: RouteInfo[];
+}
+
+/**
+ * Find routes by name, series or the additional route selection field. At least one search value is required.
+ *
+ * @displayName Find Routes
+ * @category VertiGIS Inline
+ * @description Find routes by name, series or the additional route selection field. At least one search value is required.
+ */
+export default class FindRoutesActivity implements IActivityHandler {
+    async execute(inputs: FindRoutesInputs): Promise<FindRoutesOutputs> {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr = inputs.inlineManager.spatialReference as SpatialReference;
+
+        const segments = await queryForRoutes(
+            lrs,
+            {
+                routeName: inputs.routeName,
+                series: inputs.series,
+                additionalValue: inputs.additionalValue,
+            },
+            sr,
+            { maxFeatureCount: inputs.maxFeatureCount },
+        );
+
+        // Group the segments by route.
+        const segmentsByRoute = new Map<string, __esri.Graphic[]>();
+        for (const segment of segments.features) {
+            const routeId = `${segment.attributes[lrs.routeIdField]}`;
+            if (!segmentsByRoute.has(routeId)) {
+                segmentsByRoute.set(routeId, []);
+            }
+            segmentsByRoute.get(routeId)!.push(segment);
+        }
+
+        const routes: RouteInfo[] = [];
+        for (const routeSegments of segmentsByRoute.values()) {
+            const routeInfo = getRouteInfoFromSegment(routeSegments[0], lrs);
+            const boundary = getRouteMeasureBoundary(routeSegments);
+            if (boundary) {
+                routeInfo.routeMeasureInfo = boundary;
+            }
+            routes.push(routeInfo);
+        }
+
+        routes.sort((a, b) =>
+            `${a.routeName ?? ""}`.localeCompare(`${b.routeName ?? ""}`),
+        );
+
+        return {
+            routes,
+        };
+    }
+}
@@ -0,0 +1,51 @@
+import type { IActivityHandler } from "@vertigis/workflow";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { formatStation } from "../utils/stationUtils";
+
+interface FormatStationInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The station or measure value to format.
+     *
+     * @displayName Value
+     * @description The station or measure value to format.
+     * @required
+     */
+    value: number;
+}
+
+interface FormatStationOutputs {
+    /**
+     * The formatted station, e.g. "12+50.50" when station notation is used.
+     *
+     * @displayName Station
+     * @description The formatted station, e.g. "12+50.50" when station notation is used.
+     */
+    station: string;
+}
+
+/**
+ * Format a station or measure value the same way VertiGIS Inline displays it.
+ *
+ * @displayName Format Station
+ * @category VertiGIS Inline
+ * @description Format a station or measure value the same way VertiGIS Inline displays it.
+ */
+export default class FormatStationActivity implements IActivityHandler {
+    execute(inputs: FormatStationInputs): FormatStationOutputs {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+
+        return {
+            station: formatStation(inputs.value, lrs),
+        };
+    }
+}
@@ -0,0 +1,166 @@
+import Point from "@arcgis/core/geometry/Point";
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
+import type { IActivityHandler } from "@vertigis/workflow";
+import {
+    LinearReferencingConfig,
+    MeasureUnits,
+} from "../models/LinearReferencingConfig";
+import { RouteInfo } from "../models/RouteInfo";
+import { StationInfo } from "../models/StationInfo";
+import {
+    getSegmentsForRoute,
+    getStationInfoForRoute,
+} from "../utils/geometryUtils";
+import { formatStation } from "../utils/stationUtils";
+import { convertUnits } from "../utils/unitUtils";
+
+interface GetCurrentRangeInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The unit of the returned length. If not provided will use the measure unit of the segments.
+     *
+     * @displayName Output Unit
+     * @description The unit of the returned length. If not provided will use the measure unit of the segments.
+     */
+    outputUnit?: MeasureUnits;
+}
+
+interface GetCurrentRangeOutputs {
+    /**
+     * The information that describes the current route.
+     *
+     * @displayName Route Info
+     * @description The information that describes the current route.
+     */
+    routeInfo: RouteInfo;
+
+    /**
+     * The station information where the current range begins.
+     *
+     * @displayName Begin Station
+     * @description The station information where the current range begins.
+     */
+    beginStation: StationInfo;
+
+    /**
+     * The station information where the current range ends.
+     *
+     * @displayName End Station
+     * @description The station information where the current range ends.
+     */
+    endStation: StationInfo;
+
+    /**
+     * The point where the current range begins.
+     *
+     * @displayName Begin Point
+     * @description The point where the current range begins.
+     */
+    beginPoint: __esri.Point;
+
+    /**
+     * The point where the current range ends.
+     *
+     * @displayName End Point
+     * @description The point where the current range ends.
+     */
+    endPoint: __esri.Point;
+
+    /**
+     * The length of the current range, calculated from the measures.
+     *
+     * @displayName Length
+     * @description The length of the current range, calculated from the measures.
+     */
+    length: number;
+
+    /**
+     * The begin station formatted the same way VertiGIS Inline displays it.
+     *
+     * @displayName Begin Station Text
+     * @description The begin station formatted the same way VertiGIS Inline displays it.
+     */
+    beginStationText: string;
+
+    /**
+     * The end station formatted the same way VertiGIS Inline displays it.
+     *
+     * @displayName End Station Text
+     * @description The end station formatted the same way VertiGIS Inline displays it.
+     */
+    endStationText: string;
+}
+
+/**
+ * Get the current route and range of VertiGIS Inline.
+ *
+ * @displayName Get Current Range
+ * @category VertiGIS Inline
+ * @description Get the current route and range of VertiGIS Inline.
+ */
+export default class GetCurrentRangeActivity implements IActivityHandler {
+    async execute(
+        inputs: GetCurrentRangeInputs,
+    ): Promise<GetCurrentRangeOutputs> {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr = inputs.inlineManager.spatialReference as SpatialReference;
+        const routeInfo = inputs.inlineManager.currentRoute as RouteInfo;
+        const range = inputs.inlineManager.currentRange;
+
+        if (!routeInfo || !range) {
+            throw new Error("There is no current range.");
+        }
+
+        // Only query the route if the stations are missing their points.
+        let route: Promise<FeatureSet> | undefined;
+        const withPoint = async (station: StationInfo) => {
+            if (station.pointJSON) {
+                return station;
+            }
+            route ??= getSegmentsForRoute(lrs, `${routeInfo.routeId}`, sr);
+            const stationInfo = getStationInfoForRoute(
+                station.measure,
+                await route,
+                lrs,
+                false,
+            );
+            return { ...station, pointJSON: stationInfo.pointJSON };
+        };
+
+        const beginStation = await withPoint(range.beginStation as StationInfo);
+        const endStation = await withPoint(range.endStation as StationInfo);
+
+        const length = convertUnits(
+            Math.abs(endStation.measure - beginStation.measure),
+            lrs.segmentsMeasureUnit,
+            inputs.outputUnit ?? lrs.segmentsMeasureUnit,
+        );
+
+        return {
+            routeInfo,
+            beginStation,
+            endStation,
+            beginPoint: Point.fromJSON(beginStation.pointJSON),
+            endPoint: Point.fromJSON(endStation.pointJSON),
+            length,
+            beginStationText: formatStation(
+                beginStation.station ?? beginStation.measure,
+                lrs,
+            ),
+            endStationText: formatStation(
+                endStation.station ?? endStation.measure,
+                lrs,
+            ),
+        };
+    }
+}
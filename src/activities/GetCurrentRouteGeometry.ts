@@ -1,8 +1,18 @@
 import type { IActivityHandler } from "@vertigis/workflow";
-import { getSegmentsForRoute } from "../utils/geometryUtils";
-import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import {
+    getLengthOfSegmentsUsingMValue,
+    getSegmentsForRoute,
+    getSlopeLengthOfLine,
+    mergeSegmentGeometries,
+    removeZValues,
+} from "../utils/geometryUtils";
+import {
+    LinearReferencingConfig,
+    MeasureUnits,
+} from "../models/LinearReferencingConfig";
 import SpatialReference from "@arcgis/core/geometry/SpatialReference";
 import { trimFeatureSetToRange } from "../utils/geometryUtils";
+import { convertUnits } from "../utils/unitUtils";
 
 interface GetCurrentRouteGeometryInputs {
     /**
@@ -21,16 +31,68 @@ interface GetCurrentRouteGeometryInputs {
      * @description Whether to trim the geometry to the current range or return the entire route. Default is false.
      */
     trimToRange: boolean;
+
+    /**
+     * The unit of the returned length. If not provided will use the measure unit of the segments.
+     *
+     * @displayName Output Unit
+     * @description The unit of the returned length. If not provided will use the measure unit of the segments.
+     */
+    outputUnit?: MeasureUnits;
+
+    /**
+     * Whether to include the z values of the route in the geometry. Default is true.
+     *
+     * @displayName Return Z
+     * @description Whether to include the z values of the route in the geometry. Default is true.
+     */
+    returnZ?: boolean;
+
+    /**
+     * Whether to return the geometry of every segment of the route instead of a single polyline. Default is false.
+     *
+     * @displayName Return All Segments
+     * @description Whether to return the geometry of every segment of the route instead of a single polyline. Default is false.
+     */
+    returnAllSegments?: boolean;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
 }
 
 interface GetCurrentRouteGeometryOutputs {
     /**
-     * The geometry of the current highlighted route or range.
-     * 
+     * The geometry of the current highlighted route or range, as one polyline ordered by measure with a path for each part.
+     * If Return All Segments is true, the geometries of the segments instead.
+     *
      * @displayName Geometry
-     * @description The geometry of the current highlighted route or range.
+     * @description The geometry of the current highlighted route or range, as one polyline ordered by measure with a path for each part.
+     * If Return All Segments is true, the geometries of the segments instead.
      */
     geometry: __esri.Geometry | __esri.Geometry[];
+
+    /**
+     * The length of the current highlighted route or range, calculated from the m values.
+     *
+     * @displayName Length
+     * @description The length of the current highlighted route or range, calculated from the m values.
+     */
+    length: number;
+
+    /**
+     * The length of the current highlighted route or range measured along the slope, using the z values of the geometry.
+     *
+     * @displayName Slope Length
+     * @description The length of the current highlighted route or range measured along the slope, using the z values of the geometry.
+     */
+    slopeLength: number;
 }
 
 /**
@@ -51,7 +113,9 @@ export default class GetCurrentRouteGeometryActivity
         const sr = inputs.inlineManager.spatialReference as SpatialReference;
         const routeId = inputs.inlineManager.currentRoute.routeId as string;
 
-        const route = await getSegmentsForRoute(lrs, routeId, sr);
+        const route = await getSegmentsForRoute(lrs, routeId, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
 
         if (inputs.trimToRange) {
             const start = inputs.inlineManager.currentRange.beginStation
@@ -62,7 +126,38 @@ export default class GetCurrentRouteGeometryActivity
             trimFeatureSetToRange(route, start, end, lrs);
         }
 
-        // The response will have one feature.  We need the geometry included with that feature.
-        return { geometry: route.features[0].geometry };
+        const outputUnit = inputs.outputUnit ?? lrs.segmentsMeasureUnit;
+        const length = convertUnits(
+            getLengthOfSegmentsUsingMValue(route.features),
+            lrs.segmentsMeasureUnit,
+            outputUnit,
+        );
+        const slopeLength = route.features.reduce(
+            (total, feature) =>
+                feature.geometry
+                    ? total +
+                      getSlopeLengthOfLine(
+                          feature.geometry as __esri.Polyline,
+                          outputUnit,
+                      )
+                    : total,
+            0,
+        );
+
+        const withZ = (geometry: __esri.Polyline) =>
+            inputs.returnZ === false ? removeZValues(geometry) : geometry;
+
+        // Routes are made of many segments. Dissolve them unless each one was asked for.
+        let geometry: __esri.Geometry | __esri.Geometry[];
+        if (inputs.returnAllSegments) {
+            geometry = route.features
+                .filter((feature) => feature.geometry)
+                .map((feature) => withZ(feature.geometry as __esri.Polyline));
+        } else {
+            const merged = mergeSegmentGeometries(route.features);
+            geometry = (merged && withZ(merged)) as __esri.Geometry;
+        }
+
+        return { geometry, length, slopeLength };
     }
 }
@@ -2,9 +2,11 @@ import SpatialReference from "@arcgis/core/geometry/SpatialReference";
 import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
 import type { IActivityHandler } from "@vertigis/workflow";
 import { IActivityContext } from "@vertigis/workflow/IActivityHandler";
+import { MeasureUnits } from "../models/LinearReferencingConfig";
 import { calculateMValuesFromCoordinates } from "../utils/geometryUtils";
 
 export const DEFAULT_M_VALUE_FIELD = "_M_VALUE_FIELD_";
+export const DEFAULT_UNMATCHED_REASON_FIELD = "_UNMATCHED_REASON_";
 
 interface GetMValuesFromCoordinatesInputs {
     /**
@@ -68,6 +70,118 @@ interface GetMValuesFromCoordinatesInputs {
      * is "_M_VALUE_FIELD_".
      */
     mValueFieldName?: string;
+
+    /**
+     * The name of the field the station value will be assigned to. When stations are calculated
+     * using the segment attributes, the station is interpolated within the matched segment.
+     * Otherwise it is the same as the m value. If not provided the station is not assigned.
+     *
+     * @displayName Station Field Name
+     * @description The name of the field the station value will be assigned to. When stations are calculated
+     * using the segment attributes, the station is interpolated within the matched segment.
+     * Otherwise it is the same as the m value. If not provided the station is not assigned.
+     */
+    stationFieldName?: string;
+
+    /**
+     * The name of the field the distance from the route will be assigned to, in the
+     * output unit. If not provided the distance is not assigned.
+     *
+     * @displayName Offset Field Name
+     * @description The name of the field the distance from the route will be assigned to, in the
+     * output unit. If not provided the distance is not assigned.
+     */
+    offsetFieldName?: string;
+
+    /**
+     * The name of the field the side of the route will be assigned to, either "left" or "right"
+     * in the direction of increasing measure. If not provided the side is not assigned.
+     *
+     * @displayName Side Field Name
+     * @description The name of the field the side of the route will be assigned to, either "left" or "right"
+     * in the direction of increasing measure. If not provided the side is not assigned.
+     */
+    sideFieldName?: string;
+
+    /**
+     * Whether to match each feature to the nearest route within the search tolerance instead
+     * of the current route. Default is false.
+     *
+     * @displayName Search All Routes
+     * @description Whether to match each feature to the nearest route within the search tolerance instead
+     * of the current route. Default is false.
+     */
+    searchAllRoutes?: boolean;
+
+    /**
+     * The distance around each feature to search for routes, in the measure unit of the segments.
+     * Required when searching all routes.
+     *
+     * @displayName Search Tolerance
+     * @description The distance around each feature to search for routes, in the measure unit of the segments.
+     * Required when searching all routes.
+     */
+    searchTolerance?: number;
+
+    /**
+     * The name of the field the ID of the matched route will be assigned to. If not provided
+     * the route ID is not assigned.
+     *
+     * @displayName Route ID Field Name
+     * @description The name of the field the ID of the matched route will be assigned to. If not provided
+     * the route ID is not assigned.
+     */
+    routeIdFieldName?: string;
+
+    /**
+     * The name of the field the name of the matched route will be assigned to. If not provided
+     * the route name is not assigned.
+     *
+     * @displayName Route Name Field Name
+     * @description The name of the field the name of the matched route will be assigned to. If not provided
+     * the route name is not assigned.
+     */
+    routeNameFieldName?: string;
+
+    /**
+     * The unit the m values, stations and distances will be converted to. If not provided
+     * will use the measure unit of the segments.
+     *
+     * @displayName Output Unit
+     * @description The unit the m values, stations and distances will be converted to. If not provided
+     * will use the measure unit of the segments.
+     */
+    outputUnit?: MeasureUnits;
+
+    /**
+     * The maximum distance, in the output unit, a feature can be from the route. Features further
+     * away are not matched. If not provided every feature is matched to the nearest route.
+     *
+     * @displayName Max Distance
+     * @description The maximum distance, in the output unit, a feature can be from the route. Features further
+     * away are not matched. If not provided every feature is matched to the nearest route.
+     */
+    maxDistance?: number;
+
+    /**
+     * The name of the field the reason will be assigned to for features that could not be matched.
+     * Default is "_UNMATCHED_REASON_".
+     *
+     * @displayName Unmatched Reason Field Name
+     * @description The name of the field the reason will be assigned to for features that could not be matched.
+     * Default is "_UNMATCHED_REASON_".
+     */
+    unmatchedReasonFieldName?: string;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
 }
 
 interface GetMValuesFromCoordinatesOutputs {
@@ -78,6 +192,16 @@ interface GetMValuesFromCoordinatesOutputs {
      * @description The Feature Set updated with m values.
      */
     featureSet: any;
+
+    /**
+     * The features that could not be matched to a route, with the reason: "null-geometry",
+     * "missing-coordinates", "no-route", "no-measure" or "too-far".
+     *
+     * @displayName Unmatched Feature Set
+     * @description The features that could not be matched to a route, with the reason: "null-geometry",
+     * "missing-coordinates", "no-route", "no-measure" or "too-far".
+     */
+    unmatchedFeatureSet: FeatureSet;
 }
 
 /**
@@ -94,25 +218,50 @@ export default class GetMValuesFromCoordinatesActivity
         inputs: GetMValuesFromCoordinatesInputs,
         context: IActivityContext,
     ): Promise<GetMValuesFromCoordinatesOutputs> {
-        let featureSet = inputs.featureSet;
         const spatialReference =
             inputs.spatialReference ??
-            featureSet.features[0].geometry.spatialReference ??
+            inputs.featureSet.features[0]?.geometry?.spatialReference ??
             context.ambient.trivia!.map;
         const mFieldName = inputs.mValueFieldName ?? DEFAULT_M_VALUE_FIELD;
 
-        featureSet = await calculateMValuesFromCoordinates(
-            inputs.inlineManager,
-            featureSet,
-            !!inputs.useGeometry,
-            inputs.xFieldName ?? "",
-            inputs.yFieldName ?? "",
-            spatialReference,
-            mFieldName,
-        );
+        if (inputs.searchAllRoutes && inputs.searchTolerance == null) {
+            throw new Error(
+                "A search tolerance is required when searching all routes.",
+            );
+        }
+
+        const { featureSet, unmatchedFeatureSet } =
+            await calculateMValuesFromCoordinates(
+                inputs.inlineManager,
+                inputs.featureSet,
+                !!inputs.useGeometry,
+                inputs.xFieldName ?? "",
+                inputs.yFieldName ?? "",
+                spatialReference,
+                {
+                    mValueFieldName: mFieldName,
+                    stationFieldName: inputs.stationFieldName,
+                    offsetFieldName: inputs.offsetFieldName,
+                    sideFieldName: inputs.sideFieldName,
+                    routeIdFieldName: inputs.routeIdFieldName,
+                    routeNameFieldName: inputs.routeNameFieldName,
+                    unmatchedReasonFieldName:
+                        inputs.unmatchedReasonFieldName ??
+                        DEFAULT_UNMATCHED_REASON_FIELD,
+                },
+                {
+                    searchTolerance: inputs.searchAllRoutes
+                        ? inputs.searchTolerance
+                        : undefined,
+                    outputUnit: inputs.outputUnit,
+                    maxDistance: inputs.maxDistance,
+                    queryOptions: { maxFeatureCount: inputs.maxFeatureCount },
+                },
+            );
 
         return {
             featureSet,
+            unmatchedFeatureSet,
         };
     }
 }
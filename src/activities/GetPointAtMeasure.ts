@@ -0,0 +1,123 @@
+import Point from "@arcgis/core/geometry/Point";
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import type { IActivityHandler } from "@vertigis/workflow";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { StationInfo } from "../models/StationInfo";
+import {
+    getSegmentsForRoute,
+    getStationInfoForRoute,
+} from "../utils/geometryUtils";
+
+interface GetPointAtMeasureInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The ID of the route to locate the point on. If not provided will use the current route.
+     *
+     * @displayName Route ID
+     * @description The ID of the route to locate the point on. If not provided will use the current route.
+     */
+    routeId?: string;
+
+    /**
+     * The measure value of the point. Either a measure or a station is required.
+     *
+     * @displayName Measure
+     * @description The measure value of the point. Either a measure or a station is required.
+     */
+    measure?: number;
+
+    /**
+     * The station value of the point. Either a measure or a station is required.
+     *
+     * @displayName Station
+     * @description The station value of the point. Either a measure or a station is required.
+     */
+    station?: number;
+
+    /**
+     * The spatial reference of the resulting point. If not provided will use the map's spatial reference.
+     *
+     * @displayName Spatial Reference
+     * @description The spatial reference of the resulting point. If not provided will use the map's spatial reference.
+     */
+    spatialReference?: SpatialReference;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface GetPointAtMeasureOutputs {
+    /**
+     * The point at the measure or station along the route.
+     *
+     * @displayName Point
+     * @description The point at the measure or station along the route.
+     */
+    point: __esri.Point;
+
+    /**
+     * The station information of the point.
+     *
+     * @displayName Station Info
+     * @description The station information of the point.
+     */
+    stationInfo: StationInfo;
+}
+
+/**
+ * Get the point at a measure or station along a route.
+ *
+ * @displayName Get Point At Measure
+ * @category VertiGIS Inline
+ * @description Get the point at a measure or station along a route.
+ */
+export default class GetPointAtMeasureActivity implements IActivityHandler {
+    async execute(
+        inputs: GetPointAtMeasureInputs,
+    ): Promise<GetPointAtMeasureOutputs> {
+        const isStation = inputs.measure == null;
+        const value = isStation ? inputs.station : inputs.measure;
+        if (value == null) {
+            throw new Error("Either a measure or a station is required.");
+        }
+
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr =
+            inputs.spatialReference ??
+            (inputs.inlineManager.spatialReference as SpatialReference);
+        const routeId =
+            inputs.routeId ??
+            (inputs.inlineManager.currentRoute.routeId as string);
+
+        const route = await getSegmentsForRoute(lrs, routeId, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
+        const stationInfo = getStationInfoForRoute(
+            value,
+            route,
+            lrs,
+            isStation,
+        );
+
+        return {
+            point: Point.fromJSON(stationInfo.pointJSON),
+            stationInfo,
+        };
+    }
+}
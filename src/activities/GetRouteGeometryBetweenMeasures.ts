@@ -0,0 +1,182 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import Graphic from "@arcgis/core/Graphic";
+import type { IActivityHandler } from "@vertigis/workflow";
+import {
+    LinearReferencingConfig,
+    MeasureUnits,
+} from "../models/LinearReferencingConfig";
+import {
+    getLengthOfSegmentsUsingMValue,
+    getNumberOfVertex,
+    getPointAtVertex,
+    getRouteGeometryBetweenMeasures,
+    getSegmentsForRoute,
+} from "../utils/geometryUtils";
+import { convertUnits } from "../utils/unitUtils";
+
+interface GetRouteGeometryBetweenMeasuresInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The ID of the route. If not provided will use the current route.
+     *
+     * @displayName Route ID
+     * @description The ID of the route. If not provided will use the current route.
+     */
+    routeId?: string;
+
+    /**
+     * The measure or station value where the geometry starts.
+     *
+     * @displayName Start
+     * @description The measure or station value where the geometry starts.
+     * @required
+     */
+    start: number;
+
+    /**
+     * The measure or station value where the geometry ends.
+     *
+     * @displayName End
+     * @description The measure or station value where the geometry ends.
+     * @required
+     */
+    end: number;
+
+    /**
+     * Whether the start and end values are stations rather than measures. Default is false.
+     *
+     * @displayName Use Stations
+     * @description Whether the start and end values are stations rather than measures. Default is false.
+     */
+    useStations?: boolean;
+
+    /**
+     * The unit of the returned length. If not provided will use the measure unit of the segments.
+     *
+     * @displayName Output Unit
+     * @description The unit of the returned length. If not provided will use the measure unit of the segments.
+     */
+    outputUnit?: MeasureUnits;
+
+    /**
+     * The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     *
+     * @displayName Spatial Reference
+     * @description The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     */
+    spatialReference?: SpatialReference;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface GetRouteGeometryBetweenMeasuresOutputs {
+    /**
+     * The part of the route between the start and end values, as one polyline ordered by measure with a path for each part.
+     *
+     * @displayName Geometry
+     * @description The part of the route between the start and end values, as one polyline ordered by measure with a path for each part.
+     */
+    geometry: __esri.Polyline;
+
+    /**
+     * The point where the geometry begins. This is the end with the smaller measure value.
+     *
+     * @displayName Begin Point
+     * @description The point where the geometry begins. This is the end with the smaller measure value.
+     */
+    beginPoint: __esri.Point;
+
+    /**
+     * The point where the geometry ends. This is the end with the larger measure value.
+     *
+     * @displayName End Point
+     * @description The point where the geometry ends. This is the end with the larger measure value.
+     */
+    endPoint: __esri.Point;
+
+    /**
+     * The length of the geometry, calculated from the m values. Gaps in the route are not included.
+     *
+     * @displayName Length
+     * @description The length of the geometry, calculated from the m values. Gaps in the route are not included.
+     */
+    length: number;
+}
+
+/**
+ * Get the geometry of the part of a route between two measure or station values.
+ *
+ * @displayName Get Route Geometry Between Measures
+ * @category VertiGIS Inline
+ * @description Get the geometry of the part of a route between two measure or station values.
+ */
+export default class GetRouteGeometryBetweenMeasuresActivity
+    implements IActivityHandler
+{
+    async execute(
+        inputs: GetRouteGeometryBetweenMeasuresInputs,
+    ): Promise<GetRouteGeometryBetweenMeasuresOutputs> {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr =
+            inputs.spatialReference ??
+            (inputs.inlineManager.spatialReference as SpatialReference);
+        const routeId =
+            inputs.routeId ??
+            (inputs.inlineManager.currentRoute.routeId as string);
+
+        const route = await getSegmentsForRoute(lrs, routeId, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
+
+        // Stations only differ from measures when they are calculated from the segment attributes.
+        const geometry = getRouteGeometryBetweenMeasures(
+            route,
+            inputs.start,
+            inputs.end,
+            {
+                ...lrs,
+                calculateStationUsingAttributes:
+                    !!inputs.useStations && lrs.calculateStationUsingAttributes,
+            },
+        );
+
+        if (!geometry) {
+            throw new Error(
+                `No part of route "${routeId}" is between ${inputs.start} and ${inputs.end}.`,
+            );
+        }
+
+        const length = convertUnits(
+            getLengthOfSegmentsUsingMValue([new Graphic({ geometry })]),
+            lrs.segmentsMeasureUnit,
+            inputs.outputUnit ?? lrs.segmentsMeasureUnit,
+        );
+
+        return {
+            geometry,
+            beginPoint: getPointAtVertex(0, geometry),
+            endPoint: getPointAtVertex(
+                getNumberOfVertex(geometry) - 1,
+                geometry,
+            ),
+            length,
+        };
+    }
+}
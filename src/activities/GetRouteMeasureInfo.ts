@@ -0,0 +1,119 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import type { IActivityHandler } from "@vertigis/workflow";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { RouteInfo } from "../models/RouteInfo";
+import { getRouteInfoWithMeasures } from "../utils/geometryUtils";
+
+interface GetRouteMeasureInfoInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The ID of the route. If not provided will use the current route.
+     *
+     * @displayName Route ID
+     * @description The ID of the route. If not provided will use the current route.
+     */
+    routeId?: string;
+
+    /**
+     * The spatial reference of the resulting points. If not provided will use the map's spatial reference.
+     *
+     * @displayName Spatial Reference
+     * @description The spatial reference of the resulting points. If not provided will use the map's spatial reference.
+     */
+    spatialReference?: SpatialReference;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface GetRouteMeasureInfoOutputs {
+    /**
+     * The information that describes the route, including its measure info.
+     *
+     * @displayName Route Info
+     * @description The information that describes the route, including its measure info.
+     */
+    routeInfo: RouteInfo;
+
+    /**
+     * The smallest measure value of the route.
+     *
+     * @displayName Min
+     * @description The smallest measure value of the route.
+     */
+    min: number;
+
+    /**
+     * The point where the smallest measure value of the route occurs.
+     *
+     * @displayName Min Point
+     * @description The point where the smallest measure value of the route occurs.
+     */
+    minPoint: __esri.Point;
+
+    /**
+     * The largest measure value of the route.
+     *
+     * @displayName Max
+     * @description The largest measure value of the route.
+     */
+    max: number;
+
+    /**
+     * The point where the largest measure value of the route occurs.
+     *
+     * @displayName Max Point
+     * @description The point where the largest measure value of the route occurs.
+     */
+    maxPoint: __esri.Point;
+}
+
+/**
+ * Get the smallest and largest measure values of a route and the points where they occur.
+ *
+ * @displayName Get Route Measure Info
+ * @category VertiGIS Inline
+ * @description Get the smallest and largest measure values of a route and the points where they occur.
+ */
+export default class GetRouteMeasureInfoActivity implements IActivityHandler {
+    async execute(
+        inputs: GetRouteMeasureInfoInputs,
+    ): Promise<GetRouteMeasureInfoOutputs> {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr =
+            inputs.spatialReference ??
+            (inputs.inlineManager.spatialReference as SpatialReference);
+        const routeId =
+            inputs.routeId ??
+            (inputs.inlineManager.currentRoute.routeId as string);
+
+        const routeInfo = await getRouteInfoWithMeasures(lrs, routeId, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
+        const { min, minPoint, max, maxPoint } = routeInfo.routeMeasureInfo!;
+
+        return {
+            routeInfo,
+            min,
+            minPoint,
+            max,
+            maxPoint,
+        };
+    }
+}
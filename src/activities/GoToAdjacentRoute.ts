@@ -0,0 +1,68 @@
+import type { IActivityHandler } from "@vertigis/workflow";
+import { RouteInfo } from "../models/RouteInfo";
+import { navigateToRoute } from "../utils/navigationUtils";
+
+interface GoToAdjacentRouteInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * Whether to go to the previous or the next route of the current route.
+     *
+     * @displayName Direction
+     * @description Whether to go to the previous or the next route of the current route.
+     * @required
+     */
+    direction: "previous" | "next";
+}
+
+interface GoToAdjacentRouteOutputs {
+    /**
+     * The information that describes the new current route.
+     *
+     * @displayName Route Info
+     * @description The information that describes the new current route.
+     */
+    routeInfo: RouteInfo;
+}
+
+/**
+ * Switch VertiGIS Inline to the previous or next route of the current route.
+ *
+ * @displayName Go To Adjacent Route
+ * @category VertiGIS Inline
+ * @description Switch VertiGIS Inline to the previous or next route of the current route.
+ */
+export default class GoToAdjacentRouteActivity implements IActivityHandler {
+    async execute(
+        inputs: GoToAdjacentRouteInputs,
+    ): Promise<GoToAdjacentRouteOutputs> {
+        const currentRoute = inputs.inlineManager.currentRoute as
+            RouteInfo | undefined;
+        const routeId =
+            inputs.direction === "previous"
+                ? currentRoute?.previousRouteId
+                : currentRoute?.nextRouteId;
+
+        if (routeId == null || routeId === "") {
+            throw new Error(
+                `The current route does not have a ${inputs.direction} route.`,
+            );
+        }
+
+        const routeInfo = await navigateToRoute(
+            inputs.inlineManager,
+            `${routeId}`,
+        );
+
+        return {
+            routeInfo,
+        };
+    }
+}
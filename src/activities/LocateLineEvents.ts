@@ -0,0 +1,153 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
+import type { IActivityHandler } from "@vertigis/workflow";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import {
+    createRouteSegmentsLoader,
+    getRouteGeometryBetweenMeasures,
+} from "../utils/geometryUtils";
+
+interface LocateLineEventsInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * @displayName Feature Set
+     * @description The Feature Set of linear events to create line geometries for.
+     * @required
+     */
+    featureSet: FeatureSet;
+
+    /**
+     * The name of the field that contains the route ID of the event. If not provided
+     * all events will be located on the current route.
+     *
+     * @displayName Route ID Field Name
+     * @description The name of the field that contains the route ID of the event. If not provided
+     * all events will be located on the current route.
+     */
+    routeIdFieldName?: string;
+
+    /**
+     * The name of the field that contains the measure where the event begins.
+     *
+     * @displayName From Measure Field Name
+     * @description The name of the field that contains the measure where the event begins.
+     * @required
+     */
+    fromMeasureFieldName: string;
+
+    /**
+     * The name of the field that contains the measure where the event ends.
+     *
+     * @displayName To Measure Field Name
+     * @description The name of the field that contains the measure where the event ends.
+     * @required
+     */
+    toMeasureFieldName: string;
+
+    /**
+     * The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     *
+     * @displayName Spatial Reference
+     * @description The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     */
+    spatialReference?: SpatialReference;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface LocateLineEventsOutputs {
+    /**
+     * The Feature Set with a line geometry for each event. Events that could not be
+     * located on their route have no geometry.
+     *
+     * @displayName Feature Set
+     * @description The Feature Set with a line geometry for each event. Events that could not be
+     * located on their route have no geometry.
+     */
+    featureSet: FeatureSet;
+}
+
+/**
+ * Create line geometries for linear events using their route and begin and end measures.
+ *
+ * @displayName Locate Line Events
+ * @category VertiGIS Inline
+ * @description Create line geometries for linear events using their route and begin and end measures.
+ */
+export default class LocateLineEventsActivity implements IActivityHandler {
+    async execute(
+        inputs: LocateLineEventsInputs,
+    ): Promise<LocateLineEventsOutputs> {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr =
+            inputs.spatialReference ??
+            (inputs.inlineManager.spatialReference as SpatialReference);
+        const currentRouteId = inputs.inlineManager.currentRoute
+            ?.routeId as string;
+
+        // Each route is only queried once, no matter how many events are on it.
+        const getRoute = createRouteSegmentsLoader(lrs, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
+        // The event fields hold measures, even when stations are calculated from the segment attributes.
+        const measureConfig = {
+            ...lrs,
+            calculateStationUsingAttributes: false,
+        };
+
+        const featureSet = new FeatureSet({
+            fields: inputs.featureSet.fields,
+            geometryType: "polyline",
+            spatialReference: sr,
+        });
+
+        for (const feature of inputs.featureSet.features) {
+            const newFeature = feature.clone();
+            const routeId = inputs.routeIdFieldName
+                ? feature.attributes[inputs.routeIdFieldName]
+                : currentRouteId;
+            const from = feature.attributes[inputs.fromMeasureFieldName] as
+                number | null;
+            const to = feature.attributes[inputs.toMeasureFieldName] as
+                number | null;
+
+            const route =
+                routeId != null && from != null && to != null
+                    ? await getRoute(`${routeId}`)
+                    : null;
+
+            const geometry = route
+                ? getRouteGeometryBetweenMeasures(
+                      route,
+                      from!,
+                      to!,
+                      measureConfig,
+                  )
+                : null;
+
+            newFeature.geometry = geometry as __esri.Geometry;
+            featureSet.features.push(newFeature);
+        }
+
+        return {
+            featureSet,
+        };
+    }
+}
@@ -0,0 +1,165 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
+import type { IActivityHandler } from "@vertigis/workflow";
+import {
+    LinearReferencingConfig,
+    MeasureUnits,
+} from "../models/LinearReferencingConfig";
+import {
+    createRouteSegmentsLoader,
+    getPointAtMeasureWithOffset,
+} from "../utils/geometryUtils";
+
+interface LocatePointEventsInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * @displayName Feature Set
+     * @description The Feature Set of point events to create point geometries for.
+     * @required
+     */
+    featureSet: FeatureSet;
+
+    /**
+     * The name of the field that contains the route ID of the event. If not provided
+     * all events will be located on the current route.
+     *
+     * @displayName Route ID Field Name
+     * @description The name of the field that contains the route ID of the event. If not provided
+     * all events will be located on the current route.
+     */
+    routeIdFieldName?: string;
+
+    /**
+     * The name of the field that contains the measure of the event.
+     *
+     * @displayName Measure Field Name
+     * @description The name of the field that contains the measure of the event.
+     * @required
+     */
+    measureFieldName: string;
+
+    /**
+     * The name of the field that contains the signed offset of the event from the route.
+     * Positive values are to the right of the route in the direction of increasing measure,
+     * negative values are to the left.
+     *
+     * @displayName Offset Field Name
+     * @description The name of the field that contains the signed offset of the event from the route.
+     * Positive values are to the right of the route in the direction of increasing measure,
+     * negative values are to the left.
+     */
+    offsetFieldName?: string;
+
+    /**
+     * The unit of the offset values. If not provided will use the measure unit of the segments.
+     *
+     * @displayName Offset Unit
+     * @description The unit of the offset values. If not provided will use the measure unit of the segments.
+     */
+    offsetUnit?: MeasureUnits;
+
+    /**
+     * The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     *
+     * @displayName Spatial Reference
+     * @description The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     */
+    spatialReference?: SpatialReference;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface LocatePointEventsOutputs {
+    /**
+     * The Feature Set with a point geometry for each event. Events that could not be
+     * located on their route have no geometry.
+     *
+     * @displayName Feature Set
+     * @description The Feature Set with a point geometry for each event. Events that could not be
+     * located on their route have no geometry.
+     */
+    featureSet: FeatureSet;
+}
+
+/**
+ * Create point geometries for point events using their route, measure and offset.
+ *
+ * @displayName Locate Point Events
+ * @category VertiGIS Inline
+ * @description Create point geometries for point events using their route, measure and offset.
+ */
+export default class LocatePointEventsActivity implements IActivityHandler {
+    async execute(
+        inputs: LocatePointEventsInputs,
+    ): Promise<LocatePointEventsOutputs> {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr =
+            inputs.spatialReference ??
+            (inputs.inlineManager.spatialReference as SpatialReference);
+        const currentRouteId = inputs.inlineManager.currentRoute
+            ?.routeId as string;
+        const offsetUnit = inputs.offsetUnit ?? lrs.segmentsMeasureUnit;
+
+        // Each route is only queried once, no matter how many events are on it.
+        const getRoute = createRouteSegmentsLoader(lrs, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
+
+        const featureSet = new FeatureSet({
+            fields: inputs.featureSet.fields,
+            geometryType: "point",
+            spatialReference: sr,
+        });
+
+        for (const feature of inputs.featureSet.features) {
+            const newFeature = feature.clone();
+            const routeId = inputs.routeIdFieldName
+                ? feature.attributes[inputs.routeIdFieldName]
+                : currentRouteId;
+            const measure = feature.attributes[inputs.measureFieldName] as
+                number | null;
+            const offset = inputs.offsetFieldName
+                ? (feature.attributes[inputs.offsetFieldName] as number | null)
+                : null;
+
+            const route =
+                routeId != null && measure != null
+                    ? await getRoute(`${routeId}`)
+                    : null;
+
+            // Events whose measure is not on the route get no geometry.
+            const geometry = route
+                ? getPointAtMeasureWithOffset(
+                      measure!,
+                      route,
+                      offset ?? 0,
+                      offsetUnit,
+                  )
+                : null;
+
+            newFeature.geometry = geometry as __esri.Geometry;
+            featureSet.features.push(newFeature);
+        }
+
+        return {
+            featureSet,
+        };
+    }
+}
@@ -0,0 +1,267 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import Graphic from "@arcgis/core/Graphic";
+import Field from "@arcgis/core/layers/support/Field";
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
+import type { IActivityHandler } from "@vertigis/workflow";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import {
+    combineEventAttributes,
+    createLinearEvents,
+    OverlayType,
+    overlayEvents,
+} from "../utils/eventUtils";
+import {
+    createRouteSegmentsLoader,
+    getRouteGeometryBetweenMeasures,
+} from "../utils/geometryUtils";
+
+interface OverlayRouteEventsInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The Feature Sets of linear events to overlay. Each one is a separate event table.
+     *
+     * @displayName Feature Sets
+     * @description The Feature Sets of linear events to overlay. Each one is a separate event table.
+     * @required
+     */
+    featureSets: FeatureSet[];
+
+    /**
+     * The name of the field that contains the route ID of the events, in every Feature Set.
+     * If not provided all events will be on the current route.
+     *
+     * @displayName Route ID Field Name
+     * @description The name of the field that contains the route ID of the events, in every Feature Set.
+     * If not provided all events will be on the current route.
+     */
+    routeIdFieldName?: string;
+
+    /**
+     * The name of the field that contains the measure where the events begin, in every Feature Set.
+     *
+     * @displayName From Measure Field Name
+     * @description The name of the field that contains the measure where the events begin, in every Feature Set.
+     * @required
+     */
+    fromMeasureFieldName: string;
+
+    /**
+     * The name of the field that contains the measure where the events end, in every Feature Set.
+     *
+     * @displayName To Measure Field Name
+     * @description The name of the field that contains the measure where the events end, in every Feature Set.
+     * @required
+     */
+    toMeasureFieldName: string;
+
+    /**
+     * Whether to keep only the parts of the routes covered by an event of every Feature Set ("intersect"),
+     * or the parts covered by an event of any Feature Set ("union"). Default is "union".
+     *
+     * @displayName Overlay Type
+     * @description Whether to keep only the parts of the routes covered by an event of every Feature Set ("intersect"),
+     * or the parts covered by an event of any Feature Set ("union"). Default is "union".
+     */
+    overlayType?: OverlayType;
+
+    /**
+     * The prefix to add to the field names of each Feature Set, in the same order as the Feature Sets.
+     * Required when Feature Sets have fields with the same name, other than the measure and route ID fields.
+     *
+     * @displayName Field Prefixes
+     * @description The prefix to add to the field names of each Feature Set, in the same order as the Feature Sets.
+     * Required when Feature Sets have fields with the same name, other than the measure and route ID fields.
+     */
+    fieldPrefixes?: string[];
+
+    /**
+     * The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     *
+     * @displayName Spatial Reference
+     * @description The spatial reference of the resulting geometries. If not provided will use the map's spatial reference.
+     */
+    spatialReference?: SpatialReference;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface OverlayRouteEventsOutputs {
+    /**
+     * The homogeneous segments, with the combined attributes of the events that cover them and a line geometry.
+     * The from and to measure fields hold the measures of the segment, and object IDs are left out. Segments that
+     * could not be located on their route have no geometry.
+     *
+     * @displayName Feature Set
+     * @description The homogeneous segments, with the combined attributes of the events that cover them and a line geometry.
+     * The from and to measure fields hold the measures of the segment, and object IDs are left out. Segments that
+     * could not be located on their route have no geometry.
+     */
+    featureSet: FeatureSet;
+}
+
+/**
+ * Split linear events from several Feature Sets at every measure where one begins or ends,
+ * creating homogeneous segments that carry the attributes of all the events that cover them.
+ *
+ * @displayName Overlay Route Events
+ * @category VertiGIS Inline
+ * @description Split linear events from several Feature Sets at every measure where one begins or ends,
+ * creating homogeneous segments that carry the attributes of all the events that cover them.
+ */
+export default class OverlayRouteEventsActivity implements IActivityHandler {
+    async execute(
+        inputs: OverlayRouteEventsInputs,
+    ): Promise<OverlayRouteEventsOutputs> {
+        if (!inputs.featureSets?.length) {
+            throw new Error("At least one Feature Set is required.");
+        }
+
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr =
+            inputs.spatialReference ??
+            (inputs.inlineManager.spatialReference as SpatialReference);
+        const currentRouteId = inputs.inlineManager.currentRoute
+            ?.routeId as string;
+        const prefixes = inputs.fieldPrefixes ?? [];
+
+        const tables = inputs.featureSets.map((featureSet) =>
+            createLinearEvents(
+                featureSet.features,
+                inputs.fromMeasureFieldName,
+                inputs.toMeasureFieldName,
+                inputs.routeIdFieldName,
+                currentRouteId,
+            ),
+        );
+        const { fields, omittedNames } = createOutputFields(inputs, prefixes);
+        const segments = overlayEvents(tables, inputs.overlayType ?? "union");
+
+        // Each route is only queried once, no matter how many segments are on it.
+        const getRoute = createRouteSegmentsLoader(lrs, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
+        // The event fields hold measures, even when stations are calculated from the segment attributes.
+        const measureConfig = {
+            ...lrs,
+            calculateStationUsingAttributes: false,
+        };
+
+        const featureSet = new FeatureSet({
+            fields,
+            geometryType: "polyline",
+            spatialReference: sr,
+        });
+
+        for (const segment of segments) {
+            const attributes = combineEventAttributes(segment.events, prefixes);
+            for (const name of omittedNames) {
+                delete attributes[name];
+            }
+            attributes[inputs.fromMeasureFieldName] = segment.from;
+            attributes[inputs.toMeasureFieldName] = segment.to;
+            if (inputs.routeIdFieldName) {
+                attributes[inputs.routeIdFieldName] = segment.routeId;
+            }
+
+            const route = await getRoute(segment.routeId);
+            const geometry = route
+                ? getRouteGeometryBetweenMeasures(
+                      route,
+                      segment.from,
+                      segment.to,
+                      measureConfig,
+                  )
+                : null;
+
+            featureSet.features.push(
+                new Graphic({
+                    attributes,
+                    geometry: geometry as __esri.Geometry,
+                }),
+            );
+        }
+
+        return {
+            featureSet,
+        };
+    }
+}
+
+/**
+ * Combine the fields of the Feature Sets, adding their prefixes. The object ID fields are left
+ * out, as they don't identify the segments, and the fields for the measures and route ID of the
+ * segments take the place of those of the events.
+ * @returns The fields, and the names of the event attributes that are left out.
+ * @throws An error if a field name is used by more than one Feature Set.
+ */
+function createOutputFields(
+    inputs: OverlayRouteEventsInputs,
+    prefixes: (string | undefined)[],
+): { fields: Field[]; omittedNames: string[] } {
+    const segmentFields = [
+        new Field({ name: inputs.fromMeasureFieldName, type: "double" }),
+        new Field({ name: inputs.toMeasureFieldName, type: "double" }),
+    ];
+    if (inputs.routeIdFieldName) {
+        segmentFields.push(
+            new Field({ name: inputs.routeIdFieldName, type: "string" }),
+        );
+    }
+
+    // Field names are not case sensitive.
+    const segmentNames = new Set(
+        segmentFields.map((field) => field.name.toUpperCase()),
+    );
+    const fields = new Map<string, Field>();
+    const omittedNames: string[] = [];
+
+    inputs.featureSets.forEach((featureSet, tableIndex) => {
+        for (const field of featureSet.fields ?? []) {
+            const name = (prefixes[tableIndex] ?? "") + field.name;
+            const key = name.toUpperCase();
+
+            if (field.type === "oid") {
+                omittedNames.push(name);
+                continue;
+            }
+            if (segmentNames.has(key)) {
+                continue;
+            }
+            if (fields.has(key)) {
+                throw new Error(
+                    `The field "${name}" is in more than one Feature Set. Use field prefixes to tell them apart.`,
+                );
+            }
+
+            fields.set(
+                key,
+                new Field({
+                    alias: field.alias,
+                    domain: field.domain,
+                    length: field.length,
+                    name,
+                    type: field.type,
+                }),
+            );
+        }
+    });
+
+    return { fields: [...fields.values(), ...segmentFields], omittedNames };
+}
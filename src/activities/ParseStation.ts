@@ -0,0 +1,51 @@
+import type { IActivityHandler } from "@vertigis/workflow";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { parseStation } from "../utils/stationUtils";
+
+interface ParseStationInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The station to parse, either in station notation, e.g. "12+50.50", or as a plain number.
+     *
+     * @displayName Station
+     * @description The station to parse, either in station notation, e.g. "12+50.50", or as a plain number.
+     * @required
+     */
+    station: string;
+}
+
+interface ParseStationOutputs {
+    /**
+     * The numeric station value, e.g. 1250.5.
+     *
+     * @displayName Value
+     * @description The numeric station value, e.g. 1250.5.
+     */
+    value: number;
+}
+
+/**
+ * Convert a station entered in station notation to its numeric value.
+ *
+ * @displayName Parse Station
+ * @category VertiGIS Inline
+ * @description Convert a station entered in station notation to its numeric value.
+ */
+export default class ParseStationActivity implements IActivityHandler {
+    execute(inputs: ParseStationInputs): ParseStationOutputs {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+
+        return {
+            value: parseStation(inputs.station, lrs),
+        };
+    }
+}
@@ -0,0 +1,98 @@
+import type { IActivityHandler } from "@vertigis/workflow";
+import { StationInfo } from "../models/StationInfo";
+import { navigateToRange } from "../utils/navigationUtils";
+
+interface SetCurrentRangeInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The ID of the route the range is on. If not provided will use the current route.
+     *
+     * @displayName Route ID
+     * @description The ID of the route the range is on. If not provided will use the current route.
+     */
+    routeId?: string;
+
+    /**
+     * The measure or station value where the range begins.
+     *
+     * @displayName Begin
+     * @description The measure or station value where the range begins.
+     * @required
+     */
+    begin: number;
+
+    /**
+     * The measure or station value where the range ends.
+     *
+     * @displayName End
+     * @description The measure or station value where the range ends.
+     * @required
+     */
+    end: number;
+
+    /**
+     * Whether the begin and end values are stations rather than measures. Default is false.
+     *
+     * @displayName Use Stations
+     * @description Whether the begin and end values are stations rather than measures. Default is false.
+     */
+    useStations?: boolean;
+}
+
+interface SetCurrentRangeOutputs {
+    /**
+     * The station information where the new range begins.
+     *
+     * @displayName Begin Station
+     * @description The station information where the new range begins.
+     */
+    beginStation: StationInfo;
+
+    /**
+     * The station information where the new range ends.
+     *
+     * @displayName End Station
+     * @description The station information where the new range ends.
+     */
+    endStation: StationInfo;
+}
+
+/**
+ * Set the range that VertiGIS Inline displays.
+ *
+ * @displayName Set Current Range
+ * @category VertiGIS Inline
+ * @description Set the range that VertiGIS Inline displays.
+ */
+export default class SetCurrentRangeActivity implements IActivityHandler {
+    async execute(
+        inputs: SetCurrentRangeInputs,
+    ): Promise<SetCurrentRangeOutputs> {
+        if (inputs.begin == null || inputs.end == null) {
+            throw new Error("Both a begin and an end value are required.");
+        }
+
+        const routeId =
+            inputs.routeId ??
+            (inputs.inlineManager.currentRoute?.routeId as string);
+        if (routeId == null) {
+            throw new Error("A route ID is required.");
+        }
+
+        return navigateToRange(
+            inputs.inlineManager,
+            `${routeId}`,
+            inputs.begin,
+            inputs.end,
+            !!inputs.useStations,
+        );
+    }
+}
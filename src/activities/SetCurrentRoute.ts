@@ -0,0 +1,59 @@
+import type { IActivityHandler } from "@vertigis/workflow";
+import { RouteInfo } from "../models/RouteInfo";
+import { navigateToRoute } from "../utils/navigationUtils";
+
+interface SetCurrentRouteInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The ID of the route to switch to.
+     *
+     * @displayName Route ID
+     * @description The ID of the route to switch to.
+     * @required
+     */
+    routeId: string;
+}
+
+interface SetCurrentRouteOutputs {
+    /**
+     * The information that describes the new current route.
+     *
+     * @displayName Route Info
+     * @description The information that describes the new current route.
+     */
+    routeInfo: RouteInfo;
+}
+
+/**
+ * Switch VertiGIS Inline to a route.
+ *
+ * @displayName Set Current Route
+ * @category VertiGIS Inline
+ * @description Switch VertiGIS Inline to a route.
+ */
+export default class SetCurrentRouteActivity implements IActivityHandler {
+    async execute(
+        inputs: SetCurrentRouteInputs,
+    ): Promise<SetCurrentRouteOutputs> {
+        if (inputs.routeId == null) {
+            throw new Error("A route ID is required.");
+        }
+
+        const routeInfo = await navigateToRoute(
+            inputs.inlineManager,
+            `${inputs.routeId}`,
+        );
+
+        return {
+            routeInfo,
+        };
+    }
+}
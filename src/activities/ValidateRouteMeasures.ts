@@ -0,0 +1,147 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import Graphic from "@arcgis/core/Graphic";
+import Field from "@arcgis/core/layers/support/Field";
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
+import type { IActivityHandler } from "@vertigis/workflow";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { getSegmentsForRoute } from "../utils/geometryUtils";
+import { validateRouteMeasures } from "../utils/validationUtils";
+
+interface ValidateRouteMeasuresInputs {
+    /**
+     * The Inline Manager of the current instance of VertiGIS Inline.
+     *
+     * @displayName Inline Manager
+     * @description The Inline Manager of the current instance of VertiGIS Inline.
+     * @required
+     */
+    inlineManager: any;
+
+    /**
+     * The ID of the route to validate. If not provided will use the current route.
+     *
+     * @displayName Route ID
+     * @description The ID of the route to validate. If not provided will use the current route.
+     */
+    routeId?: string;
+
+    /**
+     * Gaps, overlaps, decreasing measures and station differences smaller than this are ignored.
+     * In the measure unit of the segments. Default is 0.
+     *
+     * @displayName Tolerance
+     * @description Gaps, overlaps, decreasing measures and station differences smaller than this are ignored.
+     * In the measure unit of the segments. Default is 0.
+     */
+    tolerance?: number;
+
+    /**
+     * The largest allowed difference between the M length and the geometric length of a segment,
+     * as a percentage of the geometric length. Default is 1.
+     *
+     * @displayName Length Tolerance Percent
+     * @description The largest allowed difference between the M length and the geometric length of a segment,
+     * as a percentage of the geometric length. Default is 1.
+     */
+    lengthTolerancePercent?: number;
+
+    /**
+     * The spatial reference of the resulting points. If not provided will use the map's spatial reference.
+     *
+     * @displayName Spatial Reference
+     * @description The spatial reference of the resulting points. If not provided will use the map's spatial reference.
+     */
+    spatialReference?: SpatialReference;
+
+    /**
+     * The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     *
+     * @displayName Max Feature Count
+     * @description The maximum number of route segments a query can retrieve. The activity fails if more are found.
+     * Default is 100000.
+     */
+    maxFeatureCount?: number;
+}
+
+interface ValidateRouteMeasuresOutputs {
+    /**
+     * A point feature for each problem found. The attributes are the issue type, a description
+     * of the problem, the measure where it occurs and the route ID.
+     *
+     * @displayName Issues
+     * @description A point feature for each problem found. The attributes are the issue type, a description
+     * of the problem, the measure where it occurs and the route ID.
+     */
+    issues: FeatureSet;
+
+    /**
+     * True if no problems were found.
+     *
+     * @displayName Is Valid
+     * @description True if no problems were found.
+     */
+    isValid: boolean;
+}
+
+/**
+ * Check the measures of a route for missing and non-monotonic m values, gaps and overlaps
+ * between segments, and segments whose M length disagrees with their geometry or stations.
+ *
+ * @displayName Validate Route Measures
+ * @category VertiGIS Inline
+ * @description Check the measures of a route for missing and non-monotonic m values, gaps and overlaps
+ * between segments, and segments whose M length disagrees with their geometry or stations.
+ */
+export default class ValidateRouteMeasuresActivity
+    implements IActivityHandler
+{
+    async execute(
+        inputs: ValidateRouteMeasuresInputs,
+    ): Promise<ValidateRouteMeasuresOutputs> {
+        const lrs = inputs.inlineManager
+            .linearReferencingConfig as LinearReferencingConfig;
+        const sr =
+            inputs.spatialReference ??
+            (inputs.inlineManager.spatialReference as SpatialReference);
+        const routeId =
+            inputs.routeId ??
+            (inputs.inlineManager.currentRoute.routeId as string);
+
+        const route = await getSegmentsForRoute(lrs, routeId, sr, {
+            maxFeatureCount: inputs.maxFeatureCount,
+        });
+        const issues = validateRouteMeasures(route.features, lrs, {
+            tolerance: inputs.tolerance,
+            lengthTolerancePercent: inputs.lengthTolerancePercent,
+        });
+
+        const featureSet = new FeatureSet({
+            fields: [
+                new Field({ name: "issueType", type: "string" }),
+                new Field({ name: "description", type: "string" }),
+                new Field({ name: "measure", type: "double" }),
+                new Field({ name: "routeId", type: "string" }),
+            ],
+            geometryType: "point",
+            spatialReference: sr,
+            features: issues.map(
+                (issue) =>
+                    new Graphic({
+                        geometry: issue.point,
+                        attributes: {
+                            issueType: issue.type,
+                            description: issue.description,
+                            measure: issue.measure ?? null,
+                            routeId: `${routeId}`,
+                        },
+                    }),
+            ),
+        });
+
+        return {
+            issues: featureSet,
+            isValid: issues.length === 0,
+        };
+    }
+}
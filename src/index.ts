@@ -4,3 +4,35 @@ export { default as GetMValuesFromCoordinatesActivity } from "./activities/GetMV
 export { default as GetCurrentRouteGeometryActivity } from "./activities/GetCurrentRouteGeometry";
 
 export { default as SetFeatureSetForDataSourceActivity } from "./activities/SetFeatureSetForDataSource";
+
+export { default as GetPointAtMeasureActivity } from "./activities/GetPointAtMeasure";
+
+export { default as LocateLineEventsActivity } from "./activities/LocateLineEvents";
+
+export { default as LocatePointEventsActivity } from "./activities/LocatePointEvents";
+
+export { default as FormatStationActivity } from "./activities/FormatStation";
+
+export { default as ParseStationActivity } from "./activities/ParseStation";
+
+export { default as GetCurrentRangeActivity } from "./activities/GetCurrentRange";
+
+export { default as SetCurrentRouteActivity } from "./activities/SetCurrentRoute";
+
+export { default as SetCurrentRangeActivity } from "./activities/SetCurrentRange";
+
+export { default as GoToAdjacentRouteActivity } from "./activities/GoToAdjacentRoute";
+
+export { default as FindRoutesActivity } from "./activities/FindRoutes";
+
+export { default as GetRouteMeasureInfoActivity } from "./activities/GetRouteMeasureInfo";
+
+export { default as ClearRouteCacheActivity } from "./activities/ClearRouteCache";
+
+export { default as ValidateRouteMeasuresActivity } from "./activities/ValidateRouteMeasures";
+
+export { default as GetRouteGeometryBetweenMeasuresActivity } from "./activities/GetRouteGeometryBetweenMeasures";
+
+export { default as OverlayRouteEventsActivity } from "./activities/OverlayRouteEvents";
+
+export { default as AggregateRouteEventsActivity } from "./activities/AggregateRouteEvents";
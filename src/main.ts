@@ -1,4 +1,5 @@
 import * as index from "./index";
+import { initializeSegmentCache } from "./utils/segmentCache";
 
 let mainResult: Promise<any> | undefined;
 
@@ -9,6 +10,7 @@ export async function main(): Promise<any> {
 
     // If you need to do activity pack initialization logic
     // that can happen here.
+    initializeSegmentCache();
 
     mainResult = Promise.resolve(index);
     return mainResult;
@@ -23,7 +23,7 @@ export interface RouteInfo {
 }
 
 /** The start and end station values and points that bound the features. */
-interface FeatureSetBoundary {
+export interface FeatureSetBoundary {
     min: number;
 
     minPoint: __esri.Point;
@@ -0,0 +1,109 @@
+import {
+    createIntervals,
+    LinearEvent,
+    MAX_OVERLAY_COMBINATIONS,
+    overlayEvents,
+} from "./eventUtils";
+
+function createEvent(from: number, to: number, id: string): LinearEvent {
+    return { routeId: "R1", from, to, attributes: { id } };
+}
+
+describe("createIntervals", () => {
+    it("returns the whole range without an interval length", () => {
+        expect(createIntervals(0, 10)).toEqual([{ from: 0, to: 10 }]);
+        expect(createIntervals(10, 0, 0)).toEqual([{ from: 0, to: 10 }]);
+    });
+
+    it("aligns the intervals to multiples of the interval length", () => {
+        expect(createIntervals(120, 15, 50)).toEqual([
+            { from: 15, to: 50 },
+            { from: 50, to: 100 },
+            { from: 100, to: 120 },
+        ]);
+    });
+
+    it("splits a range into intervals finer than one decimal place", () => {
+        expect(createIntervals(0, 0.5, 0.1)).toEqual([
+            { from: 0, to: 0.1 },
+            { from: 0.1, to: 0.2 },
+            { from: 0.2, to: 0.3 },
+            { from: 0.3, to: 0.4 },
+            { from: 0.4, to: 0.5 },
+        ]);
+        expect(createIntervals(0, 1, 0.25)).toEqual([
+            { from: 0, to: 0.25 },
+            { from: 0.25, to: 0.5 },
+            { from: 0.5, to: 0.75 },
+            { from: 0.75, to: 1 },
+        ]);
+    });
+
+    it("does not add intervals because of floating point error", () => {
+        expect(createIntervals(0.03, 0.33, 0.1)).toEqual([
+            { from: 0.03, to: 0.1 },
+            { from: 0.1, to: 0.2 },
+            { from: 0.2, to: 0.3 },
+            { from: 0.3, to: 0.33 },
+        ]);
+        expect(createIntervals(0.3, 1.1, 0.1)).toHaveLength(8);
+    });
+
+    it("returns one empty interval for an empty range", () => {
+        expect(createIntervals(5, 5, 10)).toEqual([{ from: 5, to: 5 }]);
+    });
+});
+
+describe("overlayEvents", () => {
+    const pavement = [createEvent(0, 50, "P1"), createEvent(50, 100, "P2")];
+    const speed = [createEvent(20, 80, "S1")];
+
+    function describeSegments(
+        tables: LinearEvent[][],
+        type: "intersect" | "union",
+    ) {
+        return overlayEvents(tables, type).map(({ from, to, events }) => [
+            from,
+            to,
+            events.map((event) => (event?.attributes.id as string) ?? null),
+        ]);
+    }
+
+    it("keeps the parts covered by every table when intersecting", () => {
+        expect(describeSegments([pavement, speed], "intersect")).toEqual([
+            [20, 50, ["P1", "S1"]],
+            [50, 80, ["P2", "S1"]],
+        ]);
+    });
+
+    it("keeps the parts covered by any table in a union", () => {
+        expect(describeSegments([pavement, speed], "union")).toEqual([
+            [0, 20, ["P1", null]],
+            [20, 50, ["P1", "S1"]],
+            [50, 80, ["P2", "S1"]],
+            [80, 100, ["P2", null]],
+        ]);
+    });
+
+    it("makes a segment for each overlapping event of a table", () => {
+        const overlapping = [createEvent(0, 10, "A"), createEvent(5, 10, "B")];
+
+        expect(describeSegments([overlapping], "union")).toEqual([
+            [0, 5, ["A"]],
+            [5, 10, ["A"]],
+            [5, 10, ["B"]],
+        ]);
+    });
+
+    it("rejects overlaps that would make too many segments", () => {
+        // Each table has 11 events over the same range, so there are 11 * 11 combinations.
+        const table = Array.from({ length: 11 }, (_, index) =>
+            createEvent(0, 10, `E${index}`),
+        );
+
+        expect(11 * 11).toBeGreaterThan(MAX_OVERLAY_COMBINATIONS);
+        expect(() => overlayEvents([table, table], "union")).toThrow(
+            /more than the maximum/,
+        );
+    });
+});
@@ -0,0 +1,355 @@
+/** A linear event on a route: the range of measures it covers and its attributes. */
+export interface LinearEvent {
+    /** The ID of the route the event is on. */
+    routeId: string;
+
+    /** The smaller measure value of the event. */
+    from: number;
+
+    /** The larger measure value of the event. */
+    to: number;
+
+    /** The attributes of the event feature. */
+    attributes: Record<string, any>;
+}
+
+/**
+ * How overlayEvents() handles the parts of a route that are not covered by every table.
+ * "intersect" keeps only the parts covered by an event from every table, "union" keeps
+ * the parts covered by an event from any table.
+ */
+export type OverlayType = "intersect" | "union";
+
+/**
+ * The largest number of segments overlayEvents() makes for one part of a route. Each way of
+ * picking one of the overlapping events from each table makes a segment, so a few overlaps in
+ * several tables quickly multiply.
+ */
+export const MAX_OVERLAY_COMBINATIONS = 100;
+
+/** A homogeneous part of a route produced by overlayEvents(). */
+export interface OverlaySegment {
+    /** The ID of the route the segment is on. */
+    routeId: string;
+
+    /** The smaller measure value of the segment. */
+    from: number;
+
+    /** The larger measure value of the segment. */
+    to: number;
+
+    /** The event from each table that covers the segment, in table order. Null if none does. */
+    events: (LinearEvent | null)[];
+}
+
+/**
+ * Read the linear events of a set of features. Features without a route or measures are
+ * left out, and the measures of each event are ordered so that from is the smaller.
+ * @param features The features of the linear events.
+ * @param fromFieldName The name of the field that contains the measure where the event begins.
+ * @param toFieldName The name of the field that contains the measure where the event ends.
+ * @param routeIdFieldName The name of the field that contains the route ID of the event.
+ * @param defaultRouteId The route ID of events when there is no route ID field.
+ */
+export function createLinearEvents(
+    features: __esri.Graphic[],
+    fromFieldName: string,
+    toFieldName: string,
+    routeIdFieldName: string | undefined,
+    defaultRouteId: string | undefined,
+): LinearEvent[] {
+    const events: LinearEvent[] = [];
+
+    for (const feature of features) {
+        const attributes = feature.attributes ?? {};
+        const routeId = routeIdFieldName
+            ? attributes[routeIdFieldName]
+            : defaultRouteId;
+        const from = attributes[fromFieldName] as number | null;
+        const to = attributes[toFieldName] as number | null;
+
+        if (routeId == null || from == null || to == null) {
+            continue;
+        }
+
+        events.push({
+            routeId: `${routeId}`,
+            from: Math.min(from, to),
+            to: Math.max(from, to),
+            attributes,
+        });
+    }
+
+    return events;
+}
+
+/**
+ * Overlay tables of linear events to split the routes into homogeneous segments. Each route
+ * is split at every measure where an event of any table begins or ends, so the same events
+ * cover the whole of each segment. When events of one table overlap, a segment is made for
+ * each of them.
+ * @param tables The linear events of each table.
+ * @param type Whether to keep the parts of the routes covered by every table or by any table.
+ * @returns The segments, ordered by route and then by measure.
+ * @throws An error if overlapping events would make more than MAX_OVERLAY_COMBINATIONS
+ * segments for one part of a route.
+ */
+export function overlayEvents(
+    tables: LinearEvent[][],
+    type: OverlayType,
+): OverlaySegment[] {
+    // Group the events by route, keeping track of the table they came from.
+    const routes = new Map<string, LinearEvent[][]>();
+    tables.forEach((events, tableIndex) => {
+        for (const event of events) {
+            if (!routes.has(event.routeId)) {
+                routes.set(
+                    event.routeId,
+                    tables.map(() => []),
+                );
+            }
+            routes.get(event.routeId)![tableIndex].push(event);
+        }
+    });
+
+    const segments: OverlaySegment[] = [];
+
+    for (const [routeId, routeTables] of routes) {
+        const breakpoints = new Set<number>();
+        for (const event of routeTables.flat()) {
+            breakpoints.add(event.from);
+            breakpoints.add(event.to);
+        }
+        const measures = [...breakpoints].sort((a, b) => a - b);
+
+        for (let i = 0, il = measures.length - 1; i < il; i++) {
+            const from = measures[i];
+            const to = measures[i + 1];
+
+            const covering = routeTables.map((events) =>
+                events.filter((event) => event.from <= from && event.to >= to),
+            );
+
+            const isCovered =
+                type === "intersect"
+                    ? covering.every((events) => events.length > 0)
+                    : covering.some((events) => events.length > 0);
+            if (!isCovered) {
+                continue;
+            }
+
+            const combinationCount = covering.reduce(
+                (count, events) => count * Math.max(1, events.length),
+                1,
+            );
+            if (combinationCount > MAX_OVERLAY_COMBINATIONS) {
+                throw new Error(
+                    `Overlapping events on route "${routeId}" from ${from} to ${to} would make ${combinationCount} segments, ` +
+                        `more than the maximum of ${MAX_OVERLAY_COMBINATIONS}. Check the events for overlaps.`,
+                );
+            }
+
+            for (const events of getCombinations(covering)) {
+                segments.push({ routeId, from, to, events });
+            }
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Combine the attributes of the events that cover a segment. The names of the attributes of
+ * each event are prefixed with the prefix of its table, so tables with the same field names
+ * can be told apart. Without prefixes, the values of later tables win.
+ * @param events The event from each table, or null where a table has none.
+ * @param prefixes The prefix for the field names of each table.
+ */
+export function combineEventAttributes(
+    events: (LinearEvent | null)[],
+    prefixes: (string | undefined)[],
+): Record<string, any> {
+    const attributes: Record<string, any> = {};
+
+    events.forEach((event, tableIndex) => {
+        if (!event) {
+            return;
+        }
+        const prefix = prefixes[tableIndex] ?? "";
+        for (const [name, value] of Object.entries(event.attributes)) {
+            attributes[prefix + name] = value;
+        }
+    });
+
+    return attributes;
+}
+
+/**
+ * Get every way of picking one event from each table. Tables without events contribute null.
+ */
+function getCombinations(covering: LinearEvent[][]): (LinearEvent | null)[][] {
+    let combinations: (LinearEvent | null)[][] = [[]];
+
+    for (const events of covering) {
+        const choices = events.length > 0 ? events : [null];
+        combinations = combinations.flatMap((combination) =>
+            choices.map((event) => [...combination, event]),
+        );
+    }
+
+    return combinations;
+}
+
+/** A range of measure values along a route. */
+export interface MeasureRange {
+    /** The smaller measure value of the range. */
+    from: number;
+
+    /** The larger measure value of the range. */
+    to: number;
+}
+
+/** The length-weighted statistics of a field of the events in a range. */
+export interface FieldSummary {
+    /** The average of the numeric values, weighted by the length of each event in the range. */
+    average: number | null;
+
+    /** The sum of the numeric values, each prorated by the part of its event that is in the range. */
+    sum: number | null;
+
+    /** The smallest numeric value. */
+    min: number | null;
+
+    /** The largest numeric value. */
+    max: number | null;
+
+    /** The value that covers the greatest length of the range. */
+    dominant: any;
+}
+
+/**
+ * Split a range of measures into intervals of equal length. The interval edges are multiples
+ * of the interval length, so the first and last intervals are cut to the range and can be
+ * shorter.
+ * @param from The measure value where the range begins.
+ * @param to The measure value where the range ends.
+ * @param intervalLength The length of each interval, in measure units. If not provided, or
+ * not positive, the whole range is one interval.
+ */
+export function createIntervals(
+    from: number,
+    to: number,
+    intervalLength?: number,
+): MeasureRange[] {
+    if (from > to) {
+        [from, to] = [to, from];
+    }
+
+    if (!intervalLength || intervalLength <= 0) {
+        return [{ from, to }];
+    }
+
+    // Round the edges far below the interval length, only to remove floating point noise
+    // such as 0.30000000000000004.
+    const precision = Math.pow(10, 9 - Math.floor(Math.log10(intervalLength)));
+    const getEdge = (index: number) =>
+        Math.round(index * intervalLength * precision) / precision;
+
+    // Allow for rounding error, so that e.g. 0.3 / 0.1 doesn't start an interval early and
+    // 1.1 / 0.1 doesn't add an empty interval at the end.
+    const first = Math.floor(from / intervalLength + 1e-9);
+    const last = Math.max(first + 1, Math.ceil(to / intervalLength - 1e-9));
+
+    const intervals: MeasureRange[] = [];
+    for (let i = first; i < last; i++) {
+        intervals.push({
+            from: Math.max(getEdge(i), from),
+            to: Math.min(getEdge(i + 1), to),
+        });
+    }
+
+    return intervals;
+}
+
+/**
+ * Calculate length-weighted statistics of fields of the events that overlap a range. Null
+ * values are ignored, and only numbers count towards the average, sum, min and max.
+ * @param events The events to summarize. Only those that overlap the range are used.
+ * @param range The range of measures to summarize.
+ * @param fieldNames The names of the fields to summarize.
+ * @returns The statistics of each field, and the length of the range covered by events.
+ */
+export function summarizeEvents(
+    events: LinearEvent[],
+    range: MeasureRange,
+    fieldNames: string[],
+): { coveredLength: number; summaries: Record<string, FieldSummary> } {
+    // The part of each event that is inside the range.
+    const overlaps = events
+        .map((event) => ({
+            event,
+            from: Math.max(event.from, range.from),
+            to: Math.min(event.to, range.to),
+        }))
+        .filter((overlap) => overlap.to > overlap.from);
+
+    const summaries: Record<string, FieldSummary> = {};
+
+    for (const fieldName of fieldNames) {
+        let weightedTotal = 0;
+        let numericLength = 0;
+        let sum: number | null = null;
+        let min: number | null = null;
+        let max: number | null = null;
+        const lengthByValue = new Map<any, number>();
+
+        for (const { event, from, to } of overlaps) {
+            const value = event.attributes[fieldName];
+            if (value == null) {
+                continue;
+            }
+
+            const length = to - from;
+            lengthByValue.set(value, (lengthByValue.get(value) ?? 0) + length);
+
+            if (typeof value !== "number" || isNaN(value)) {
+                continue;
+            }
+
+            weightedTotal += value * length;
+            numericLength += length;
+            sum = (sum ?? 0) + (value * length) / (event.to - event.from);
+            min = min == null ? value : Math.min(min, value);
+            max = max == null ? value : Math.max(max, value);
+        }
+
+        let dominant: any = null;
+        let dominantLength = 0;
+        for (const [value, length] of lengthByValue) {
+            if (length > dominantLength) {
+                dominant = value;
+                dominantLength = length;
+            }
+        }
+
+        summaries[fieldName] = {
+            average: numericLength > 0 ? weightedTotal / numericLength : null,
+            sum,
+            min,
+            max,
+            dominant,
+        };
+    }
+
+    // Events can overlap each other, so merge them to find the length they cover.
+    let coveredLength = 0;
+    let coveredTo = -Infinity;
+    for (const { from, to } of [...overlaps].sort((a, b) => a.from - b.from)) {
+        if (to > coveredTo) {
+            coveredLength += to - Math.max(from, coveredTo);
+            coveredTo = to;
+        }
+    }
+
+    return { coveredLength, summaries };
+}
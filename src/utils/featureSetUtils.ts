@@ -0,0 +1,21 @@
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
+
+/**
+ * Create a deep copy of a feature set, including the hasM and hasZ flags of the query result.
+ * @param featureSet The feature set to copy.
+ */
+export function cloneFeatureSet(
+    featureSet: __esri.FeatureSet,
+): __esri.FeatureSet {
+    const clone = new FeatureSet({
+        features: featureSet.features.map((feature) => feature.clone()),
+        fields: featureSet.fields,
+        geometryType: featureSet.geometryType,
+        spatialReference: featureSet.spatialReference,
+    });
+    (<any>clone).hasM = (<any>featureSet).hasM;
+    (<any>clone).hasZ = (<any>featureSet).hasZ;
+    clone.exceededTransferLimit = featureSet.exceededTransferLimit;
+
+    return clone;
+}
@@ -0,0 +1,328 @@
+import Point from "@arcgis/core/geometry/Point";
+import Polyline from "@arcgis/core/geometry/Polyline";
+import Graphic from "@arcgis/core/Graphic";
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import {
+    getFeaturesTrimmedToRange,
+    getPointAtMeasureWithOffset,
+    interpolateMeasure,
+    LineSegment,
+} from "./geometryUtils";
+
+function createSegment(
+    start: [number, number, number?],
+    startMeasure: number,
+    end: [number, number, number?],
+    endMeasure: number,
+): LineSegment {
+    const [startX, startY, startZ] = start;
+    const [endX, endY, endZ] = end;
+
+    return {
+        startPoint: new Point({
+            x: startX,
+            y: startY,
+            z: startZ,
+            m: startMeasure,
+        }),
+        endPoint: new Point({ x: endX, y: endY, z: endZ, m: endMeasure }),
+    };
+}
+
+describe("interpolateMeasure", () => {
+    it("interpolates along a horizontal segment", () => {
+        const segment = createSegment([0, 0], 0, [10, 0], 100);
+
+        expect(interpolateMeasure(new Point({ x: 4, y: 0 }), segment)).toBe(40);
+    });
+
+    it("interpolates along a vertical segment", () => {
+        const segment = createSegment([0, 0], 0, [0, 10], 100);
+
+        expect(interpolateMeasure(new Point({ x: 0, y: 2.5 }), segment)).toBe(
+            25,
+        );
+    });
+
+    it("interpolates along a nearly vertical segment", () => {
+        const segment = createSegment([0, 0], 0, [1e-9, 10], 100);
+
+        expect(
+            interpolateMeasure(new Point({ x: 0, y: 5 }), segment),
+        ).toBeCloseTo(50);
+    });
+
+    it("interpolates along a segment with decreasing measures", () => {
+        const segment = createSegment([0, 0], 100, [10, 0], 0);
+
+        expect(interpolateMeasure(new Point({ x: 2, y: 0 }), segment)).toBe(80);
+    });
+
+    it("returns the start measure of a segment with no length", () => {
+        const segment = createSegment([5, 5], 7, [5, 5], 9);
+
+        expect(interpolateMeasure(new Point({ x: 5, y: 5 }), segment)).toBe(7);
+    });
+
+    it("projects a point slightly off the segment onto it", () => {
+        const segment = createSegment([0, 0], 0, [10, 0], 100);
+
+        expect(
+            interpolateMeasure(new Point({ x: 5, y: 1e-6 }), segment),
+        ).toBeCloseTo(50);
+        expect(interpolateMeasure(new Point({ x: 11, y: 0 }), segment)).toBe(
+            100,
+        );
+        expect(interpolateMeasure(new Point({ x: -1, y: 0 }), segment)).toBe(0);
+    });
+
+    it("measures the distance along a sloped segment in 3D", () => {
+        // 3 across and 4 up, so the midpoint is halfway along the 5 long slope.
+        const segment = createSegment([0, 0, 0], 0, [3, 0, 4], 50);
+
+        expect(
+            interpolateMeasure(new Point({ x: 1.5, y: 0, z: 2 }), segment),
+        ).toBeCloseTo(25);
+    });
+
+    it("interpolates along a segment that only changes in z", () => {
+        const segment = createSegment([0, 0, 0], 0, [0, 0, 10], 100);
+
+        expect(
+            interpolateMeasure(new Point({ x: 0, y: 0, z: 2.5 }), segment),
+        ).toBe(25);
+    });
+
+    it("measures in 2D when the point has no z value", () => {
+        const segment = createSegment([0, 0, 0], 0, [0, 0, 10], 100);
+
+        expect(interpolateMeasure(new Point({ x: 0, y: 0 }), segment)).toBe(0);
+    });
+});
+
+describe("getFeaturesTrimmedToRange", () => {
+    const config = {
+        calculateStationUsingAttributes: false,
+    } as LinearReferencingConfig;
+
+    function createFeature(paths: number[][][]): Graphic {
+        return new Graphic({
+            geometry: new Polyline({
+                hasM: true,
+                paths,
+                spatialReference: { wkid: 26917 },
+            }),
+            attributes: {},
+        });
+    }
+
+    function getPaths(features: Graphic[]): number[][][][] {
+        return features.map((feature) => (feature.geometry as Polyline).paths);
+    }
+
+    it("trims a segment with increasing measures", () => {
+        const features = [
+            createFeature([
+                [
+                    [0, 0, 0],
+                    [10, 0, 10],
+                    [20, 0, 20],
+                ],
+            ]),
+        ];
+
+        expect(
+            getPaths(getFeaturesTrimmedToRange(features, 5, 15, config, false)),
+        ).toEqual([
+            [
+                [
+                    [5, 0, 5],
+                    [10, 0, 10],
+                    [15, 0, 15],
+                ],
+            ],
+        ]);
+    });
+
+    it("trims a segment with decreasing measures", () => {
+        const features = [
+            createFeature([
+                [
+                    [40, 0, 40],
+                    [30, 0, 30],
+                    [20, 0, 20],
+                ],
+            ]),
+        ];
+
+        expect(
+            getPaths(
+                getFeaturesTrimmedToRange(features, 35, 25, config, false),
+            ),
+        ).toEqual([
+            [
+                [
+                    [35, 0, 35],
+                    [30, 0, 30],
+                    [25, 0, 25],
+                ],
+            ],
+        ]);
+    });
+
+    it("trims each part of a multipart segment", () => {
+        const features = [
+            createFeature([
+                [
+                    [50, 0, 50],
+                    [60, 0, 60],
+                ],
+                [
+                    [70, 0, 70],
+                    [80, 0, 80],
+                ],
+            ]),
+        ];
+
+        expect(
+            getPaths(
+                getFeaturesTrimmedToRange(features, 55, 75, config, false),
+            ),
+        ).toEqual([
+            [
+                [
+                    [55, 0, 55],
+                    [60, 0, 60],
+                ],
+                [
+                    [70, 0, 70],
+                    [75, 0, 75],
+                ],
+            ],
+        ]);
+    });
+
+    it("leaves out segments that are completely outside the range", () => {
+        const features = [
+            createFeature([
+                [
+                    [0, 0, 0],
+                    [10, 0, 10],
+                ],
+            ]),
+            createFeature([
+                [
+                    [100, 0, 100],
+                    [110, 0, 110],
+                ],
+            ]),
+        ];
+
+        expect(
+            getPaths(
+                getFeaturesTrimmedToRange(features, 20, 90, config, false),
+            ),
+        ).toEqual([]);
+    });
+
+    it("does not change the features passed in", () => {
+        const features = [
+            createFeature([
+                [
+                    [0, 0, 0],
+                    [10, 0, 10],
+                    [20, 0, 20],
+                ],
+            ]),
+            createFeature([
+                [
+                    [50, 0, 50],
+                    [60, 0, 60],
+                ],
+                [
+                    [70, 0, 70],
+                    [80, 0, 80],
+                ],
+            ]),
+        ];
+        const pathsBefore = JSON.stringify(getPaths(features));
+
+        const trimmed = getFeaturesTrimmedToRange(
+            features,
+            5,
+            75,
+            config,
+            false,
+        );
+
+        expect(JSON.stringify(getPaths(features))).toBe(pathsBefore);
+        expect(trimmed).toHaveLength(2);
+        expect(trimmed[0]).not.toBe(features[0]);
+        expect(trimmed[0].geometry).not.toBe(features[0].geometry);
+    });
+});
+
+describe("getPointAtMeasureWithOffset", () => {
+    // One segment with two parts, leaving a gap from 10 to 20.
+    const routeSegments = new FeatureSet({
+        features: [
+            new Graphic({
+                geometry: new Polyline({
+                    hasM: true,
+                    paths: [
+                        [
+                            [0, 0, 0],
+                            [10, 0, 10],
+                        ],
+                        [
+                            [20, 0, 20],
+                            [30, 0, 30],
+                        ],
+                    ],
+                    spatialReference: { wkid: 26917 },
+                }),
+                attributes: {},
+            }),
+        ],
+    });
+
+    it("finds the point at a measure in either part", () => {
+        const first = getPointAtMeasureWithOffset(
+            5,
+            routeSegments,
+            0,
+            "meters",
+        );
+        const second = getPointAtMeasureWithOffset(
+            25,
+            routeSegments,
+            0,
+            "meters",
+        );
+
+        expect([first?.x, first?.y]).toEqual([5, 0]);
+        expect([second?.x, second?.y]).toEqual([25, 0]);
+    });
+
+    it("offsets the point to the right of the route", () => {
+        const point = getPointAtMeasureWithOffset(
+            5,
+            routeSegments,
+            2,
+            "meters",
+        );
+
+        expect(point?.x).toBeCloseTo(5);
+        expect(point?.y).toBeCloseTo(-2);
+    });
+
+    it("returns null for measures that are not on the route", () => {
+        expect(
+            getPointAtMeasureWithOffset(40, routeSegments, 0, "meters"),
+        ).toBeNull();
+        expect(
+            getPointAtMeasureWithOffset(15, routeSegments, 0, "meters"),
+        ).toBeNull();
+    });
+});
@@ -2,13 +2,29 @@ import * as geometryEngine from "@arcgis/core/geometry/geometryEngine";
 import Point from "@arcgis/core/geometry/Point";
 import Polyline from "@arcgis/core/geometry/Polyline";
 import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import * as webMercatorUtils from "@arcgis/core/geometry/support/webMercatorUtils";
 import Graphic from "@arcgis/core/Graphic";
 import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
-import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import {
+    LinearReferencingConfig,
+    MeasureUnits,
+} from "../models/LinearReferencingConfig";
 import { NearestPointResult } from "../models/NearestPointResult";
-import { queryForSegments } from "./queryUtils";
+import { FeatureSetBoundary, RouteInfo } from "../models/RouteInfo";
+import {
+    QueryOptions,
+    queryForSegments,
+    queryForSegmentsNearPoints,
+} from "./queryUtils";
 import { StationInfo } from "../models/StationInfo";
+import { getRouteInfoFromSegment } from "./routeUtils";
+import { convertUnits } from "./unitUtils";
+import { SegmentIndex } from "./spatialIndex";
 import * as proximityOperator from "@arcgis/core/geometry/operators/proximityOperator";
+
+/** The number of features whose nearby routes are found with one query when searching all routes. */
+const SEARCH_BATCH_SIZE = 500;
+
 /**
  * Extracts M values from a set of coordinates within a given feature set.
  *
@@ -17,7 +33,9 @@ import * as proximityOperator from "@arcgis/core/geometry/operators/proximityOpe
  * @param xField - The name of the field representing the X coordinate in the feature attributes.
  * @param yField - The name of the field representing the Y coordinate in the feature attributes.
  * @param inSpatialReference - The spatial reference of the input coordinates.
- * @param mValueFieldName - The name of the field where the M values will be stored.
+ * @param outputFields - The names of the fields where the M values and related results will be stored.
+ * @param options - Options that control how features are matched to routes.
+ * @returns The features that were matched to a route, and the features that were not.
  */
 export async function calculateMValuesFromCoordinates(
     inlineManager: any,
@@ -26,77 +44,252 @@ export async function calculateMValuesFromCoordinates(
     xField: string,
     yField: string,
     inSpatialReference: SpatialReference,
-    mValueFieldName: string,
-) {
+    outputFields: MeasureOutputFields,
+    options: MeasureOptions = {},
+): Promise<{ featureSet: FeatureSet; unmatchedFeatureSet: FeatureSet }> {
     const lrs =
         inlineManager.linearReferencingConfig as LinearReferencingConfig;
-    const routeId = inlineManager.currentRoute.routeId as string;
     const outSR = inlineManager.spatialReference as SpatialReference;
+    const unit = options.outputUnit ?? lrs.segmentsMeasureUnit;
 
     const newFeatureSet = new FeatureSet();
+    const unmatchedFeatureSet = new FeatureSet();
+
+    const addUnmatchedFeature = (feature: Graphic, reason: UnmatchedReason) => {
+        const unmatchedFeature = feature.clone();
+        unmatchedFeature.attributes = {
+            ...unmatchedFeature.attributes,
+            [outputFields.unmatchedReasonFieldName]: reason,
+        };
+        unmatchedFeatureSet.features.push(unmatchedFeature);
+    };
 
     // Get the graphics for the current selected Inline route.
-    const routeSegments = await getSegmentsForRoute(lrs, routeId, outSR);
+    const currentRouteSegments =
+        options.searchTolerance == null
+            ? await getSegmentsForRoute(
+                  lrs,
+                  inlineManager.currentRoute.routeId as string,
+                  outSR,
+                  options.queryOptions,
+              )
+            : null;
+
+    // Find the point of each feature first, so the routes near them can be queried together.
+    const locatedFeatures: { feature: Graphic; point: Point }[] = [];
     for (const feature of featureSet.features) {
-        const newFeature = setMValueForFeature(
-            inlineManager,
-            routeSegments,
+        if (useGeometry && !feature.geometry) {
+            addUnmatchedFeature(feature, "null-geometry");
+            continue;
+        }
+
+        const point = getPointForFeature(
             feature,
             useGeometry,
             xField,
             yField,
             inSpatialReference,
-            mValueFieldName,
         );
-        if (newFeature) {
-            newFeatureSet.features.push(newFeature);
+
+        if (!point) {
+            addUnmatchedFeature(feature, "missing-coordinates");
+            continue;
         }
+
+        locatedFeatures.push({ feature, point });
     }
 
-    return newFeatureSet;
+    for (let i = 0; i < locatedFeatures.length; i += SEARCH_BATCH_SIZE) {
+        const batch = locatedFeatures.slice(i, i + SEARCH_BATCH_SIZE);
+
+        // Otherwise get the graphics for all the routes near any feature of the batch.
+        const routeSegments =
+            currentRouteSegments ??
+            (await queryForSegmentsNearPoints(
+                lrs,
+                batch.map(({ point }) => point),
+                options.searchTolerance!,
+                lrs.segmentsMeasureUnit,
+                outSR,
+                options.queryOptions,
+            ));
+
+        for (const { feature, point } of batch) {
+            if (routeSegments.features.length === 0) {
+                addUnmatchedFeature(feature, "no-route");
+                continue;
+            }
+
+            const unmatchedReason = setMValueForFeature(
+                inlineManager,
+                routeSegments,
+                feature,
+                point,
+                outputFields,
+                unit,
+                options.maxDistance,
+                options.searchTolerance,
+            );
+            if (unmatchedReason) {
+                addUnmatchedFeature(feature, unmatchedReason);
+            } else {
+                newFeatureSet.features.push(feature);
+            }
+        }
+    }
+
+    return { featureSet: newFeatureSet, unmatchedFeatureSet };
 }
 
-function setMValueForFeature(
-    inlineManager: any,
-    routeSegments: FeatureSet,
+function getPointForFeature(
     feature: Graphic,
     useGeometry: boolean,
     xField: string,
     yField: string,
     inSpatialReference: SpatialReference,
-    mValueFieldName: string,
-): Graphic | null {
+): Point | null {
     const xValue = useGeometry
         ? (feature.geometry as Point).x
         : feature.attributes[xField];
     const yValue = useGeometry
         ? (feature.geometry as Point).y
         : feature.attributes[yField];
-    const outSpatialReference =
-        inlineManager.spatialReference as SpatialReference;
-    const point = new Point({
-        x: xValue,
-        y: yValue,
+
+    // Empty values would otherwise be converted to 0.
+    if (xValue == null || yValue == null || xValue === "" || yValue === "") {
+        return null;
+    }
+
+    const x = Number(xValue);
+    const y = Number(yValue);
+    if (!isFinite(x) || !isFinite(y)) {
+        return null;
+    }
+
+    return new Point({
+        x,
+        y,
         spatialReference: inSpatialReference,
     });
+}
+
+/**
+ * Assign the M value and related results to a feature.
+ * @returns The reason the feature could not be matched to the route, or undefined if it was.
+ */
+function setMValueForFeature(
+    inlineManager: any,
+    routeSegments: FeatureSet,
+    feature: Graphic,
+    point: Point,
+    outputFields: MeasureOutputFields,
+    outputUnit: MeasureUnits,
+    maxDistance: number | undefined,
+    searchTolerance: number | undefined,
+): UnmatchedReason | undefined {
+    const lrs =
+        inlineManager.linearReferencingConfig as LinearReferencingConfig;
+    const outSpatialReference =
+        inlineManager.spatialReference as SpatialReference;
 
     // Find the closest feature to the current point along the route.
-    const closestGraphic = findClosestFeature(routeSegments.features, point);
+    const closestGraphic = findClosestFeature(routeSegments, point);
+    if (closestGraphic == null) {
+        return "no-route";
+    }
 
     // Get the measure info from the closest feature.
-    const measure = calculateMeasureFromPoint(
+    const result = calculateMeasureFromPoint(
         point,
         closestGraphic,
         outSpatialReference,
+        outputUnit,
     );
 
-    if (measure == null) {
-        return null;
+    if (result == null) {
+        return "no-measure";
     }
 
-    feature.attributes[mValueFieldName] = measure;
+    // The segments are queried for a batch of features, so the nearest can still be out of reach of this one.
+    if (
+        searchTolerance != null &&
+        result.distance >
+            convertUnits(searchTolerance, lrs.segmentsMeasureUnit, outputUnit)
+    ) {
+        return "no-route";
+    }
 
-    return feature;
+    if (maxDistance != null && result.distance > maxDistance) {
+        return "too-far";
+    }
+
+    feature.attributes[outputFields.mValueFieldName] = convertUnits(
+        result.measure,
+        lrs.segmentsMeasureUnit,
+        outputUnit,
+    );
+
+    if (outputFields.stationFieldName) {
+        feature.attributes[outputFields.stationFieldName] = convertUnits(
+            getStationFromMeasure(result.measure, closestGraphic, lrs),
+            lrs.segmentsMeasureUnit,
+            outputUnit,
+        );
+    }
+
+    if (outputFields.offsetFieldName) {
+        feature.attributes[outputFields.offsetFieldName] = result.distance;
+    }
+
+    if (outputFields.sideFieldName) {
+        feature.attributes[outputFields.sideFieldName] = result.isRightSide
+            ? "right"
+            : "left";
+    }
+
+    if (outputFields.routeIdFieldName) {
+        feature.attributes[outputFields.routeIdFieldName] =
+            closestGraphic.attributes[lrs.routeIdField];
+    }
+
+    if (outputFields.routeNameFieldName) {
+        feature.attributes[outputFields.routeNameFieldName] =
+            closestGraphic.attributes[lrs.routeNameField];
+    }
+
+    return undefined;
+}
+
+/**
+ * Create a function that retrieves the segments of a route, querying each route only once.
+ * Routes that have no segments resolve to null, but failed queries are rejected.
+ *
+ * @param linearReferencingConfig - Configuration object for linear referencing.
+ * @param spatialReference - The spatial reference for the queries.
+ * @param options - Options that control how routes with many segments are retrieved.
+ * @returns A function that resolves a route ID to the FeatureSet of its segments.
+ */
+export function createRouteSegmentsLoader(
+    linearReferencingConfig: LinearReferencingConfig,
+    spatialReference: SpatialReference,
+    options?: QueryOptions,
+): (routeId: string) => Promise<FeatureSet | null> {
+    const routes = new Map<string, Promise<FeatureSet | null>>();
+
+    return (routeId: string) => {
+        if (!routes.has(routeId)) {
+            routes.set(
+                routeId,
+                queryForSegments(
+                    linearReferencingConfig,
+                    routeId,
+                    spatialReference,
+                    options,
+                ).then((result) => (result.features.length ? result : null)),
+            );
+        }
+        return routes.get(routeId)!;
+    };
 }
 
 /**
@@ -105,6 +298,7 @@ function setMValueForFeature(
  * @param linearReferencingConfig - Configuration object for linear referencing.
  * @param routeId - Identifier for the route whose segments are to be retrieved.
  * @param spatialReference - The spatial reference for the query.
+ * @param options - Options that control how routes with many segments are retrieved.
  * @returns A promise that resolves to a FeatureSet containing the segments of the route.
  * @throws An error if no segments are found or if the query fails.
  */
@@ -112,6 +306,7 @@ export async function getSegmentsForRoute(
     linearReferencingConfig: LinearReferencingConfig,
     routeId: string,
     spatialReference: SpatialReference,
+    options?: QueryOptions,
 ): Promise<FeatureSet> {
     try {
         // Query for all the segments of this route
@@ -119,6 +314,7 @@ export async function getSegmentsForRoute(
             linearReferencingConfig,
             routeId,
             spatialReference,
+            options,
         );
 
         if (result.features.length === 0) {
@@ -133,118 +329,161 @@ export async function getSegmentsForRoute(
     }
 }
 
+// The spatial indexes of the route segments, built once per FeatureSet.
+const segmentIndexes = new WeakMap<__esri.FeatureSet, SegmentIndex>();
+
+/**
+ * Find the route segment closest to the point.
+ * @returns The closest segment, or null if there are no segments or none can be measured to.
+ */
 function findClosestFeature(
-    features: __esri.Graphic[],
+    routeSegments: __esri.FeatureSet,
     point: __esri.Point,
-): __esri.Graphic {
+): __esri.Graphic | null {
+    const features = routeSegments.features;
+
     if (features.length === 0) {
-        throw new Error("Invalid argument. Feature count = 0");
+        return null;
     }
 
     if (features.length === 1) {
         return features[0];
     }
 
-    let nearestPoint: NearestPointResult | null = null;
-    let nearestGraphic: __esri.Graphic | null = null;
-
-    // Find the closest graphic
-    for (let i = 0, il = features.length; i < il; i++) {
-        const graphic = features[i];
-
-        if (graphic.geometry) {
-            const newPoint = geometryEngine.nearestCoordinate(
-                graphic.geometry,
-                point,
-            );
-
-            // Check if this graphic is closer
-            if (!newPoint.isEmpty) {
-                if (nearestPoint == null) {
-                    nearestPoint = newPoint as NearestPointResult;
-                    nearestGraphic = graphic;
-                } else if (nearestPoint.distance > newPoint.distance) {
-                    nearestPoint = newPoint as NearestPointResult;
-                    nearestGraphic = graphic;
-                }
-            }
-        }
+    let index = segmentIndexes.get(routeSegments);
+    if (!index) {
+        index = new SegmentIndex(features);
+        segmentIndexes.set(routeSegments, index);
     }
 
-    if (nearestGraphic == null) {
-        throw new Error("Nearest feature was not found.");
-    }
+    // Find the closest graphic, only measuring the graphics near the point.
+    const nearestGraphic = index.findNearest(point, (graphic) => {
+        const nearestPoint = geometryEngine.nearestCoordinate(
+            graphic.geometry,
+            point,
+        );
+        return nearestPoint.isEmpty ? null : nearestPoint.distance;
+    });
 
     return nearestGraphic;
 }
 
 /**
  * Find the segment of the esri polyline that contains the given measure value.
+ * Each path of a multipart polyline is a separate measured part, so the segment
+ * returned never joins the end of one path to the start of the next. The start point
+ * of the segment always has the smaller measure value.
  * @param measureValue
  * @param polyline
+ * @throws An error if the measure value is before the start of the polyline or falls in
+ * a gap between its paths.
  */
 export function findLineSegmentThatContainsMeasure(
     measureValue: number,
     polyline: __esri.Polyline,
 ): LineSegment {
-    const numberOfVertices = getNumberOfVertex(polyline);
-    let lastPoint: __esri.Point = getPointAtVertex(0, polyline);
-
-    let reversed = false;
+    let minMeasure = Infinity;
+    let maxMeasure = -Infinity;
+    let lastSegment: LineSegment | undefined;
+
+    let firstVertex = 0;
+    for (const path of polyline.paths) {
+        const lastVertex = firstVertex + path.length - 1;
+
+        if (path.length > 1) {
+            const startPoint = getPointAtVertex(firstVertex, polyline);
+            const endPoint = getPointAtVertex(lastVertex, polyline);
+            const pathMin = Math.min(startPoint.m, endPoint.m);
+            const pathMax = Math.max(startPoint.m, endPoint.m);
+
+            if (measureValue >= pathMin && measureValue <= pathMax) {
+                return findLineSegmentInPath(
+                    measureValue,
+                    polyline,
+                    firstVertex,
+                    lastVertex,
+                );
+            }
 
-    // This polyline could be reversed if the sought measure value is less than the measure value of the first pt.
-    // If this happens we'll need to check for the segment backwards i.e. from the last point to the first point.
-    if (lastPoint.m > measureValue) {
-        lastPoint = getPointAtVertex(numberOfVertices - 1, polyline);
-        if (lastPoint.m > measureValue) {
-            throw new Error(
-                "Measure value not found in the supplied polyline.",
-            );
+            minMeasure = Math.min(minMeasure, pathMin);
+            if (pathMax > maxMeasure) {
+                maxMeasure = pathMax;
+                lastSegment = findLineSegmentInPath(
+                    pathMax,
+                    polyline,
+                    firstVertex,
+                    lastVertex,
+                );
+            }
         }
 
-        reversed = true;
+        firstVertex = lastVertex + 1;
     }
 
-    let currentPoint;
+    if (!lastSegment || measureValue < minMeasure) {
+        throw new Error("Measure value not found in the supplied polyline.");
+    }
 
-    if (reversed) {
-        for (let i = numberOfVertices - 2; i >= 0; i--) {
-            currentPoint = getPointAtVertex(i, polyline);
-            if (currentPoint.m! >= measureValue) {
-                return <LineSegment>{
-                    startPoint: lastPoint,
-                    endPoint: currentPoint,
-                };
-            }
-            lastPoint = currentPoint;
-        }
-        lastPoint = getPointAtVertex(numberOfVertices - 1, polyline);
-        currentPoint = getPointAtVertex(numberOfVertices - 2, polyline);
-    } else {
-        for (let i = 1; i < numberOfVertices; i++) {
-            currentPoint = getPointAtVertex(i, polyline);
-            if (currentPoint.m! >= measureValue) {
-                return <LineSegment>{
-                    startPoint: lastPoint,
-                    endPoint: currentPoint,
-                };
-            }
-            lastPoint = currentPoint;
+    if (measureValue < maxMeasure) {
+        throw new Error(
+            `Measure value ${measureValue} falls in a gap between the parts of the polyline.`,
+        );
+    }
+
+    // If the measure is past the end of the polyline return the last segment.
+    return lastSegment;
+}
+
+/**
+ * Find the segment of one path of the polyline that contains the given measure value,
+ * searching from the end of the path with the smaller measure value.
+ * @param measureValue The measure value of interest.
+ * @param polyline The polyline that contains the path.
+ * @param firstVertex The index of the first vertex of the path.
+ * @param lastVertex The index of the last vertex of the path.
+ */
+function findLineSegmentInPath(
+    measureValue: number,
+    polyline: __esri.Polyline,
+    firstVertex: number,
+    lastVertex: number,
+): LineSegment {
+    // The path is reversed if the measure values decrease from the first vertex to the last.
+    // If this happens we'll need to check for the segment backwards i.e. from the last point to the first point.
+    const reversed =
+        getPointAtVertex(firstVertex, polyline).m >
+        getPointAtVertex(lastVertex, polyline).m;
+    const step = reversed ? -1 : 1;
+    const start = reversed ? lastVertex : firstVertex;
+    const end = reversed ? firstVertex : lastVertex;
+
+    let lastPoint = getPointAtVertex(start, polyline);
+
+    for (let i = start + step; i !== end + step; i += step) {
+        const currentPoint = getPointAtVertex(i, polyline);
+        if (currentPoint.m >= measureValue) {
+            return { startPoint: lastPoint, endPoint: currentPoint };
         }
+        lastPoint = currentPoint;
     }
 
-    // If no point is found return the last point
-    return <LineSegment>{ startPoint: lastPoint, endPoint: currentPoint };
+    // If no point is found return the last segment of the path
+    return {
+        startPoint: getPointAtVertex(end - step, polyline),
+        endPoint: lastPoint,
+    };
 }
 
 function calculateMeasureFromPoint(
     point: __esri.Point,
     nearestSegmentFeature: __esri.Graphic,
     spatialReference: __esri.SpatialReference,
-): number | null {
+    distanceUnit: MeasureUnits,
+): PointMeasureResult | null {
     const nearestPoint = proximityOperator.getNearestCoordinate(
         nearestSegmentFeature.geometry,
         point,
+        { calculateLeftRightSide: true },
     ) as NearestPointResult;
 
     const nearestVertex = proximityOperator.getNearestVertex(
@@ -262,6 +501,20 @@ function calculateMeasureFromPoint(
         nearestPoint.vertexIndex,
     );
 
+    // Calculate the offset from the route
+    const elasticLine = new Polyline();
+    elasticLine.spatialReference = spatialReference;
+    elasticLine.addPath([nearestPoint.coordinate, point]);
+    const distance = getLengthOfLine(elasticLine, distanceUnit);
+
+    // The side is relative to the digitized direction of the segment. Flip it if the measures decrease.
+    const isRightSide =
+        containingSegment.endPoint.m < containingSegment.startPoint.m
+            ? !nearestPoint.isRightSide
+            : nearestPoint.isRightSide;
+
+    let measure: number;
+
     // If this is a vertex, no interpolation needed.
     if (isVertex) {
         const stationPoint = getPointAtVertex(
@@ -269,31 +522,168 @@ function calculateMeasureFromPoint(
             nearestSegmentFeature.geometry as Polyline,
         );
 
-        return stationPoint.m;
+        measure = stationPoint.m;
 
         // Interpolate
     } else {
-        const mapSR = spatialReference;
-
-        // Calculate offset in feet
-        const elasticLine = new Polyline();
-        elasticLine.spatialReference = mapSR;
-        elasticLine.addPath([nearestPoint.coordinate, point]);
-
         // Make the transformation from measure to point a bijection by doing the same process
         // as in createPointAtTargetMeasure() in reverse.
-        // We can arbitrarily choose to use the x coordinate for MeasurePercent here because geometrically speaking
-        // there is no difference between using the x or y, so the only discrepancy should be floating point error (small).
-        const measurePercent =
-            (nearestPoint.coordinate.x - containingSegment.startPoint.x) /
-            (containingSegment.endPoint.x - containingSegment.startPoint.x);
-        const segmentLength =
-            containingSegment.endPoint.m - containingSegment.startPoint.m;
-        const measure =
-            segmentLength * measurePercent + containingSegment.startPoint.m;
+        measure = interpolateMeasure(
+            nearestPoint.coordinate,
+            containingSegment,
+        );
+    }
 
-        return measure;
+    if (measure == null) {
+        return null;
+    }
+
+    return { measure, distance, isRightSide };
+}
+
+/**
+ * Interpolate the measure of a point on a line segment from its distance along the segment.
+ * The distance is measured in 3D when the point and both ends of the segment have z values,
+ * otherwise in 2D. The measures of the segment can increase or decrease, and a segment with
+ * no length has the measure of its start point.
+ * @param point A point on the line segment.
+ * @param lineSegment The line segment that contains the point.
+ */
+export function interpolateMeasure(
+    point: __esri.Point,
+    lineSegment: LineSegment,
+): number {
+    const { startPoint, endPoint } = lineSegment;
+    const useZ = point.z != null && startPoint.z != null && endPoint.z != null;
+
+    const dx = endPoint.x - startPoint.x;
+    const dy = endPoint.y - startPoint.y;
+    const dz = useZ ? endPoint.z - startPoint.z : 0;
+    const lengthSquared = dx * dx + dy * dy + dz * dz;
+
+    if (lengthSquared === 0) {
+        return startPoint.m;
     }
+
+    // Project the point onto the segment so that a point slightly off the line, due to
+    // floating point error, still gets a measure between those of the ends.
+    const along =
+        (point.x - startPoint.x) * dx +
+        (point.y - startPoint.y) * dy +
+        (useZ ? (point.z - startPoint.z) * dz : 0);
+    const measurePercent = clamp(along / lengthSquared, 0, 1);
+
+    return (endPoint.m - startPoint.m) * measurePercent + startPoint.m;
+}
+
+/**
+ * Get the length of a polyline in the given unit. Geodesic length is used for geographic
+ * and Web Mercator spatial references, planar length otherwise.
+ * @param polyline The polyline to measure.
+ * @param unit The unit of the resulting length.
+ */
+export function getLengthOfLine(
+    polyline: __esri.Polyline,
+    unit: MeasureUnits,
+): number {
+    const spatialReference = polyline.spatialReference;
+
+    return spatialReference?.isGeographic || spatialReference?.isWebMercator
+        ? geometryEngine.geodesicLength(polyline, unit)
+        : geometryEngine.planarLength(polyline, unit);
+}
+
+/**
+ * Get the length of a polyline in the given unit, measured on the slope using its z values.
+ * Z values are taken to be in the linear unit of a projected spatial reference, or in meters
+ * for geographic and Web Mercator spatial references. Vertices without z values are treated
+ * as flat.
+ * @param polyline The polyline to measure.
+ * @param unit The unit of the resulting length.
+ */
+export function getSlopeLengthOfLine(
+    polyline: __esri.Polyline,
+    unit: MeasureUnits,
+): number {
+    const spatialReference = polyline.spatialReference;
+    const isGeodesic =
+        spatialReference?.isGeographic || spatialReference?.isWebMercator;
+
+    // The horizontal distance between vertices of a projected polyline is in the unit of the spatial reference.
+    const metersPerUnit = isGeodesic
+        ? 1
+        : geometryEngine.planarLength(
+              new Polyline({
+                  paths: [
+                      [
+                          [0, 0],
+                          [1, 0],
+                      ],
+                  ],
+                  spatialReference,
+              }),
+              "meters",
+          );
+
+    let length = 0;
+    let firstVertex = 0;
+    for (const path of polyline.paths) {
+        let lastPoint = getPointAtVertex(firstVertex, polyline);
+
+        for (
+            let i = firstVertex + 1, il = firstVertex + path.length;
+            i < il;
+            i++
+        ) {
+            const point = getPointAtVertex(i, polyline);
+
+            const horizontal = isGeodesic
+                ? getLengthOfLine(
+                      new Polyline({
+                          paths: [
+                              [
+                                  [lastPoint.x, lastPoint.y],
+                                  [point.x, point.y],
+                              ],
+                          ],
+                          spatialReference,
+                      }),
+                      "meters",
+                  )
+                : Math.hypot(point.x - lastPoint.x, point.y - lastPoint.y) *
+                  metersPerUnit;
+            const vertical =
+                point.z != null && lastPoint.z != null
+                    ? (point.z - lastPoint.z) * metersPerUnit
+                    : 0;
+
+            length += Math.hypot(horizontal, vertical);
+            lastPoint = point;
+        }
+
+        firstVertex += path.length;
+    }
+
+    return convertUnits(length, "meters", unit);
+}
+
+/**
+ * Create a copy of a polyline without z values. The m values are kept.
+ * @param polyline The polyline to copy.
+ */
+export function removeZValues(polyline: __esri.Polyline): __esri.Polyline {
+    if (!polyline.hasZ) {
+        return polyline.clone();
+    }
+
+    return new Polyline({
+        hasM: polyline.hasM,
+        hasZ: false,
+        paths: polyline.paths.map((path) =>
+            path.map((vertex) => [vertex[0], vertex[1], ...vertex.slice(3)]),
+        ),
+        spatialReference: polyline.spatialReference,
+    });
 }
 
 /**
@@ -306,37 +696,24 @@ function findAdjacentVertices(
     const polyline: __esri.Polyline = Graphic.fromJSON(containingFeatureJSON)
         .geometry as __esri.Polyline;
 
-    const nearestVertexPoint: __esri.Point = getPointAtVertex(
-        vertexIndex,
-        polyline,
-    );
-
     /* Note:  measureInfo.nearestPoint.vertexIndex seems to always be the previous vertex in the polyline.
      * in which case we can just return a line segment with vertexIndex +1 as the endPoint.  Then we don't need all the
      * code to determine the containing segment
      */
-    const startVertex = nearestVertexPoint;
-
-    // Get the desired path/vertex (Esri's nearestCoordinate geometryEngine method never returns the last vertex. So vertexIndex + 1 should never be out of bounds.)
-    const pathVertexInfo = getPathIndexForVertexIndex(
-        vertexIndex + 1,
-        polyline,
-    );
+    let startIndex = vertexIndex;
+
+    // If the vertex is the last one of its path, vertexIndex + 1 would be the first vertex of the next path.
+    // Use the segment that ends at the vertex instead so that the gap between the paths is not bridged.
+    const pathVertexInfo = getPathIndexForVertexIndex(vertexIndex, polyline);
+    const pathLength = polyline.paths[pathVertexInfo.pathIndex].length;
+    if (pathVertexInfo.vertexIndex >= pathLength - 1 && pathLength > 1) {
+        startIndex = vertexIndex - 1;
+    }
 
-    const vertex =
-        polyline.paths[pathVertexInfo.pathIndex][pathVertexInfo.vertexIndex];
-    // If the Z value exists within the vertex it is the 3rd value in the object, with M being the 4th.
-    // If no Z value present, it does not exist in the vertex and therefore the M value is the 3rd value in the object.
-    const vertexHasZ = vertex.length === 4;
-    const endVertex = Point.fromJSON({
-        spatialReference: polyline.spatialReference,
-        hasZ: vertexHasZ,
-        x: vertex[0],
-        y: vertex[1],
-        m: vertexHasZ ? vertex[3] : vertex[2],
-        z: vertexHasZ ? vertex[2] : undefined,
-    });
-    return { startPoint: startVertex, endPoint: endVertex };
+    return {
+        startPoint: getPointAtVertex(startIndex, polyline),
+        endPoint: getPointAtVertex(startIndex + 1, polyline),
+    };
 }
 
 /**
@@ -350,7 +727,7 @@ export function getPointAtVertex(
 ): __esri.Point {
     const polyline = geometry;
 
-    // We require at least 1 part. If there are multiparts, we'll only use the first part.
+    // We require at least 1 part. The vertex index counts the vertices of all the parts, in order.
     if (polyline.paths.length < 1) {
         throw new Error("Multipart polylines requires at least 1 part.");
     }
@@ -403,13 +780,14 @@ function getPathIndexForVertexIndex(
 }
 
 /**
- * Use the m-values of the polyline to determine the length.
+ * Use the m-values of the polyline to determine the length. This is the measure span from the
+ * first vertex to the last vertex, so gaps between the paths of a multipart polyline are included.
  * @param geometry the polyline that includes m values.
  */
 export function getLengthOfLineUsingMValue(geometry: __esri.Polyline): number {
     const startPoint = getPointAtVertex(0, geometry);
     const endPoint = getPointAtVertex(
-        geometry.paths[geometry.paths.length - 1].length - 1,
+        getNumberOfVertex(geometry) - 1,
         geometry,
     );
 
@@ -419,6 +797,120 @@ export function getLengthOfLineUsingMValue(geometry: __esri.Polyline): number {
     return Math.abs(endPoint.m - startPoint.m);
 }
 
+/**
+ * Use the m-values of the segments to determine the total length they cover.
+ * Each path is measured on its own so that gaps between paths are not counted.
+ * @param segments The segment graphics that include m values.
+ */
+export function getLengthOfSegmentsUsingMValue(
+    segments: __esri.Graphic[],
+): number {
+    let length = 0;
+
+    for (const segment of segments) {
+        const geometry = segment.geometry as __esri.Polyline;
+        if (!geometry) {
+            continue;
+        }
+
+        let firstVertex = 0;
+        for (const path of geometry.paths) {
+            if (path.length > 1) {
+                const startPoint = getPointAtVertex(firstVertex, geometry);
+                const endPoint = getPointAtVertex(
+                    firstVertex + path.length - 1,
+                    geometry,
+                );
+                length += Math.abs(endPoint.m - startPoint.m);
+            }
+            firstVertex += path.length;
+        }
+    }
+
+    return length;
+}
+
+/**
+ * Retrieves the RouteInfo of a route, including the measure boundary of all its segments.
+ *
+ * @param linearReferencingConfig - Configuration object for linear referencing.
+ * @param routeId - Identifier for the route.
+ * @param spatialReference - The spatial reference of the boundary points.
+ * @param options - Options that control how routes with many segments are retrieved.
+ * @returns A promise that resolves to the RouteInfo with routeMeasureInfo filled in.
+ * @throws An error if the route is not found or has no m values.
+ */
+export async function getRouteInfoWithMeasures(
+    linearReferencingConfig: LinearReferencingConfig,
+    routeId: string,
+    spatialReference: SpatialReference,
+    options?: QueryOptions,
+): Promise<RouteInfo> {
+    const route = await getSegmentsForRoute(
+        linearReferencingConfig,
+        routeId,
+        spatialReference,
+        options,
+    );
+
+    const boundary = getRouteMeasureBoundary(route.features);
+    if (!boundary) {
+        throw new Error(`No m values found for route id "${routeId}".`);
+    }
+
+    const routeInfo = getRouteInfoFromSegment(
+        route.features[0],
+        linearReferencingConfig,
+    );
+    routeInfo.routeMeasureInfo = boundary;
+
+    return routeInfo;
+}
+
+/**
+ * Find the smallest and largest m values of the segments and the points where they occur.
+ * Every vertex of every path is considered, so reversed measures and multipart geometries
+ * are handled.
+ * @param segments The segment graphics that include m values.
+ * @returns The boundary, or null if the segments have no m values.
+ */
+export function getRouteMeasureBoundary(
+    segments: __esri.Graphic[],
+): FeatureSetBoundary | null {
+    let boundary: FeatureSetBoundary | null = null;
+
+    for (const segment of segments) {
+        const geometry = segment.geometry as __esri.Polyline;
+        if (!geometry?.paths) {
+            continue;
+        }
+
+        for (let i = 0, il = getNumberOfVertex(geometry); i < il; i++) {
+            const point = getPointAtVertex(i, geometry);
+            if (point.m == null || isNaN(point.m)) {
+                continue;
+            }
+
+            if (!boundary) {
+                boundary = {
+                    min: point.m,
+                    minPoint: point,
+                    max: point.m,
+                    maxPoint: point,
+                };
+            } else if (point.m < boundary.min) {
+                boundary.min = point.m;
+                boundary.minPoint = point;
+            } else if (point.m > boundary.max) {
+                boundary.max = point.m;
+                boundary.maxPoint = point;
+            }
+        }
+    }
+
+    return boundary;
+}
+
 /**
  * Return the total number of vertices in a multipart polyline.
  * @param geometry the polyline
@@ -432,7 +924,8 @@ export function getNumberOfVertex(geometry: __esri.Polyline): number {
 
     return cumulative;
 } /**
- * Trim the provided featureSet to the selected range.
+ * Trim the provided featureSet to the selected range. The features of the featureSet are
+ * replaced with trimmed copies, see getFeaturesTrimmedToRange().
  * @param featureSet The featureSet to be modified.
  * @param start The minimum m value.
  * @param end The maximum m value.
@@ -452,6 +945,33 @@ export function trimFeatureSetToRange(
         return;
     }
 
+    featureSet.features = getFeaturesTrimmedToRange(
+        featureSet.features,
+        start,
+        end,
+        config,
+        !!(<any>featureSet).hasZ,
+    );
+}
+
+/**
+ * Trim copies of the provided features to the selected range. The features passed in are
+ * left untouched.
+ * @param features The features to trim. Their geometries must have m values.
+ * @param start The minimum m value.
+ * @param end The maximum m value.
+ * @param config The linear referencing config that describes the inline view.
+ * @param hasZ Whether the coordinates of the geometries include z values.
+ * @returns New features for those that are at least partly inside the range, with their
+ * geometries and station attributes trimmed to it.
+ */
+export function getFeaturesTrimmedToRange(
+    features: __esri.Graphic[],
+    start: number,
+    end: number,
+    config: LinearReferencingConfig,
+    hasZ: boolean,
+): __esri.Graphic[] {
     // The start value should always be the smallest.
     if (start > end) {
         [start, end] = [end, start];
@@ -461,14 +981,14 @@ export function trimFeatureSetToRange(
     let mPosition = 2;
 
     // If there are Z values, then the M position is pushed by 1
-    if ((<any>featureSet).hasZ) {
+    if (hasZ) {
         mPosition = 3;
     }
 
-    // First remove features that are completely outside the range
-    for (let i = featureSet.features.length - 1; i >= 0; i--) {
-        const feature = featureSet.features[i];
-        const geometry = <__esri.Polyline>feature.geometry;
+    const trimmedFeatures: __esri.Graphic[] = [];
+
+    for (const segment of features) {
+        const segmentGeometry = <__esri.Polyline>segment.geometry;
 
         // Track if the measure values are going forward or backward.
         let reversedMeasures: boolean = false;
@@ -479,13 +999,13 @@ export function trimFeatureSetToRange(
         if (config.calculateStationUsingAttributes) {
             // The start station should be the smallest and the end station should be the largest value.
             startOfFullRoute =
-                feature.attributes[config.segmentsBeginStationField];
-            endOfFullRoute = feature.attributes[config.segmentsEndStationField];
+                segment.attributes[config.segmentsBeginStationField];
+            endOfFullRoute = segment.attributes[config.segmentsEndStationField];
         } else {
-            startOfFullRoute = getPointAtVertex(0, geometry).m!;
+            startOfFullRoute = getPointAtVertex(0, segmentGeometry).m!;
             endOfFullRoute = getPointAtVertex(
-                getNumberOfVertex(geometry) - 1,
-                geometry,
+                getNumberOfVertex(segmentGeometry) - 1,
+                segmentGeometry,
             ).m!;
         }
 
@@ -503,18 +1023,17 @@ export function trimFeatureSetToRange(
         const isFullSelectionAfterEnd =
             startOfFullRoute > end && endOfFullRoute > end;
 
+        // Leave out features that are completely outside the range
         if (isFullSelectionBeforeStart || isFullSelectionAfterEnd) {
-            featureSet.features.splice(i, 1);
             continue;
         }
 
+        // Trim a copy so that the feature passed in is not modified.
+        const feature = segment.clone();
+        const geometry = <__esri.Polyline>feature.geometry;
+
         const removeSegmentsForwards = (point: number) => {
-            const stationPoint = getStationInfoFromSegment(
-                point,
-                feature,
-                config,
-            );
-            const measureStart = stationPoint.measure;
+            const measureStart = getMeasureFromStation(point, feature, config);
 
             // Loop through each Path
             for (let j = 0, jl = geometry.paths.length; j < jl; j++) {
@@ -547,8 +1066,16 @@ export function trimFeatureSetToRange(
                                 // No adjustment needed. next coordinate is the start point.
                                 itemsToRemove++;
                             } else {
+                                // Only paths that contain the measure are adjusted, so it can't be in a gap.
+                                const stationPoint = getStationInfoAtMeasure(
+                                    measureStart,
+                                    geometry,
+                                );
                                 coordinates[0] = stationPoint.pointJSON.x;
                                 coordinates[1] = stationPoint.pointJSON.y;
+                                if (mPosition === 3) {
+                                    coordinates[2] = stationPoint.pointJSON.z;
+                                }
                                 coordinates[mPosition] = measureStart;
                             }
                             break;
@@ -588,12 +1115,7 @@ export function trimFeatureSetToRange(
         };
 
         const removeSegmentsBackwards = (point: number) => {
-            const stationPoint = getStationInfoFromSegment(
-                point,
-                feature,
-                config,
-            );
-            const measureEnd = stationPoint.measure;
+            const measureEnd = getMeasureFromStation(point, feature, config);
 
             // Loop through each Path
             for (let j = 0, jl = geometry.paths.length; j < jl; j++) {
@@ -626,8 +1148,16 @@ export function trimFeatureSetToRange(
                                 // No adjustment needed. Previous coordinate is the end point.
                                 itemsToRemove++;
                             } else {
+                                // Only paths that contain the measure are adjusted, so it can't be in a gap.
+                                const stationPoint = getStationInfoAtMeasure(
+                                    measureEnd,
+                                    geometry,
+                                );
                                 coordinates[0] = stationPoint.pointJSON.x;
                                 coordinates[1] = stationPoint.pointJSON.y;
+                                if (mPosition === 3) {
+                                    coordinates[2] = stationPoint.pointJSON.z;
+                                }
                                 coordinates[mPosition] = measureEnd;
                             }
                             break;
@@ -690,7 +1220,105 @@ export function trimFeatureSetToRange(
                 geometry.paths.splice(k, 1);
             }
         }
+
+        trimmedFeatures.push(feature);
     }
+
+    return trimmedFeatures;
+}
+
+/**
+ * Get the part of a route that lies between two measure values as a single polyline.
+ * The route segments are left untouched.
+ * @param routeSegments The segments of the route, as returned by getSegmentsForRoute.
+ * @param start The measure value where the sub-route starts.
+ * @param end The measure value where the sub-route ends.
+ * @param config The linear referencing config that describes the inline view.
+ * @returns The polyline, or null if no part of the route is inside the range.
+ */
+export function getRouteGeometryBetweenMeasures(
+    routeSegments: __esri.FeatureSet,
+    start: number,
+    end: number,
+    config: LinearReferencingConfig,
+): __esri.Polyline | null {
+    return mergeSegmentGeometries(
+        getFeaturesTrimmedToRange(
+            routeSegments.features,
+            start,
+            end,
+            config,
+            !!(<any>routeSegments).hasZ,
+        ),
+    );
+}
+
+/**
+ * Combine the paths of the segments into a single polyline ordered by measure. Every path
+ * is turned to run in the direction of increasing measure, and paths that continue from the
+ * end of the previous path are joined into one, so there is one path per part of the route.
+ * @param segments The segment graphics to combine.
+ * @returns The polyline, or null if the segments have no paths.
+ */
+export function mergeSegmentGeometries(
+    segments: __esri.Graphic[],
+): __esri.Polyline | null {
+    const geometries = segments
+        .map((segment) => segment.geometry as __esri.Polyline)
+        .filter((geometry) => geometry?.paths.length);
+
+    if (geometries.length === 0) {
+        return null;
+    }
+
+    // Find the measure range of every path.
+    const parts: { path: number[][]; min: number }[] = [];
+    for (const geometry of geometries) {
+        let firstVertex = 0;
+        for (const path of geometry.paths) {
+            if (path.length === 0) {
+                continue;
+            }
+
+            const first = getPointAtVertex(firstVertex, geometry).m;
+            const last = getPointAtVertex(
+                firstVertex + path.length - 1,
+                geometry,
+            ).m;
+            const isReversed = first > last;
+            const min = isReversed ? last : first;
+
+            parts.push({
+                path: isReversed ? [...path].reverse() : [...path],
+                // Paths without measures go at the end.
+                min: min == null || isNaN(min) ? Infinity : min,
+            });
+            firstVertex += path.length;
+        }
+    }
+
+    parts.sort((a, b) => a.min - b.min);
+
+    const paths: number[][][] = [];
+    for (const { path } of parts) {
+        const previous = paths[paths.length - 1];
+        const end = previous?.[previous.length - 1];
+        const start = path[0];
+
+        if (end && end[0] === start[0] && end[1] === start[1]) {
+            // Skip the start vertex, it is the same as the end of the previous path.
+            paths[paths.length - 1] = previous.concat(path.slice(1));
+        } else {
+            paths.push(path);
+        }
+    }
+
+    return new Polyline({
+        hasM: geometries[0].hasM,
+        hasZ: geometries[0].hasZ,
+        paths,
+        spatialReference: geometries[0].spatialReference,
+    });
 }
 
 /**
@@ -704,43 +1332,29 @@ function getStationInfoFromSegment(
     segment: Graphic,
     config: LinearReferencingConfig,
 ): StationInfo {
-    let targetMeasure: number;
-
-    // Just use the measure unless configured otherwise.
-    if (!config.calculateStationUsingAttributes) {
-        targetMeasure = station;
-    } else {
-        const startStation = Math.min(
-            segment.attributes[config.segmentsBeginStationField] as number,
-            segment.attributes[config.segmentsEndStationField] as number,
-        );
-        const endStation = Math.max(
-            segment.attributes[config.segmentsBeginStationField] as number,
-            segment.attributes[config.segmentsEndStationField] as number,
-        );
-
-        const stationLength = Math.abs(endStation - startStation);
-        const relativeStationValue = station - startStation;
-        const percent = relativeStationValue / (stationLength * 1.0);
-
-        const lineLength = getLengthOfLineUsingMValue(
-            <__esri.Polyline>segment.geometry,
-        );
-        const startMeasure = Math.min(
-            getPointAtVertex(0, segment.geometry as __esri.Polyline).m,
-            getPointAtVertex(
-                getNumberOfVertex(segment.geometry as __esri.Polyline) - 1,
-                segment.geometry as __esri.Polyline,
-            ).m,
-        );
-        targetMeasure = lineLength * percent + startMeasure;
-    }
+    const targetMeasure = getMeasureFromStation(station, segment, config);
 
     // Need to find the coordinate of the target measure
-    const lineSegment = findLineSegmentThatContainsMeasure(
+    return getStationInfoAtMeasure(
         targetMeasure,
         <__esri.Polyline>segment.geometry,
     );
+}
+
+/**
+ * Find the StationInfo of the point at a measure value along a polyline.
+ * @param targetMeasure The measure value of interest.
+ * @param polyline The polyline that contains the measure value.
+ * @throws An error if the measure value falls in a gap between the paths of the polyline.
+ */
+function getStationInfoAtMeasure(
+    targetMeasure: number,
+    polyline: __esri.Polyline,
+): StationInfo {
+    const lineSegment = findLineSegmentThatContainsMeasure(
+        targetMeasure,
+        polyline,
+    );
 
     // ensure the target measure is on the line
     const min = Math.min(lineSegment.startPoint.m, lineSegment.endPoint.m);
@@ -756,6 +1370,297 @@ function getStationInfoFromSegment(
     return result;
 }
 
+/**
+ * Calculate the measure value of a station along a segment. This is the reverse of
+ * getStationFromMeasure().
+ * @param station The station value of interest.
+ * @param segment The graphic that contains the measure/station information.
+ * @param config The linear referencing config that describes the inline view.
+ */
+function getMeasureFromStation(
+    station: number,
+    segment: Graphic,
+    config: LinearReferencingConfig,
+): number {
+    // Just use the measure unless configured otherwise.
+    if (!config.calculateStationUsingAttributes) {
+        return station;
+    }
+
+    const [startStation, endStation] = getSegmentStationRange(segment, config);
+
+    const stationLength = Math.abs(endStation - startStation);
+    const relativeStationValue = station - startStation;
+    const percent = relativeStationValue / (stationLength * 1.0);
+
+    const lineLength = getLengthOfLineUsingMValue(
+        <__esri.Polyline>segment.geometry,
+    );
+    const [startMeasure] = getSegmentMeasureRange(segment);
+    return lineLength * percent + startMeasure;
+}
+
+/**
+ * Find the StationInfo for a measure or station value along a route.
+ * @param value The measure or station value of interest.
+ * @param routeSegments The segments of the route, as returned by getSegmentsForRoute.
+ * @param config The linear referencing config that describes the inline view.
+ * @param isStation When true, the value is a station rather than a measure.
+ */
+export function getStationInfoForRoute(
+    value: number,
+    routeSegments: __esri.FeatureSet,
+    config: LinearReferencingConfig,
+    isStation: boolean,
+): StationInfo {
+    // Stations only differ from measures when they are calculated from the segment attributes.
+    const useStations = isStation && config.calculateStationUsingAttributes;
+    const segment = findSegmentThatContainsValue(
+        value,
+        routeSegments,
+        config,
+        isStation,
+    );
+
+    const stationInfo = getStationInfoFromSegment(value, segment, {
+        ...config,
+        calculateStationUsingAttributes: useStations,
+    });
+    stationInfo.routeInfo = getRouteInfoFromSegment(segment, config);
+    stationInfo.station = useStations
+        ? value
+        : getStationFromMeasure(stationInfo.measure, segment, config);
+    stationInfo.stationFeature = { ...segment.attributes };
+
+    return stationInfo;
+}
+
+/**
+ * Get the point at a measure value along a route, shifted perpendicular to the route.
+ * @param measure The measure value of interest.
+ * @param routeSegments The segments of the route, as returned by getSegmentsForRoute.
+ * @param offset The distance to shift the point. Positive values are to the right of the
+ * route in the direction of increasing measure, negative values are to the left.
+ * @param offsetUnit The unit of the offset distance.
+ * @returns The point, or null if no part of the route contains the measure.
+ */
+export function getPointAtMeasureWithOffset(
+    measure: number,
+    routeSegments: __esri.FeatureSet,
+    offset: number,
+    offsetUnit: MeasureUnits,
+): __esri.Point | null {
+    // Look at each path, so measures in a gap between the parts of a segment are not on the route.
+    const segment = routeSegments.features.find(
+        (feature) =>
+            feature.geometry &&
+            polylineContainsMeasure(measure, feature.geometry as Polyline),
+    );
+    if (!segment) {
+        return null;
+    }
+
+    const lineSegment = findLineSegmentThatContainsMeasure(
+        measure,
+        segment.geometry as __esri.Polyline,
+    );
+    const targetMeasure = clamp(
+        measure,
+        lineSegment.startPoint.m,
+        lineSegment.endPoint.m,
+    );
+    const point = createPointAtTargetMeasure(targetMeasure, lineSegment);
+
+    if (!offset) {
+        return point;
+    }
+
+    // Offset the line segment and find the same relative position along the parallel line.
+    // The segment always runs in the direction of increasing measure, so positive offsets are on the right.
+    const { startPoint, endPoint } = lineSegment;
+    const spatialReference = startPoint.spatialReference;
+    let segmentLine = new Polyline({
+        paths: [
+            [
+                [startPoint.x, startPoint.y],
+                [endPoint.x, endPoint.y],
+            ],
+        ],
+        spatialReference,
+    });
+
+    // Offsets are planar, but lengths are geodesic in geographic and Web Mercator spatial references.
+    // Geographic lines are offset in Web Mercator, and the distance is stretched by the Web Mercator
+    // scale factor of 1 / cos(latitude) so the point ends up the true distance from the route.
+    const isGeographic =
+        !!spatialReference?.isGeographic &&
+        webMercatorUtils.canProject(
+            spatialReference,
+            SpatialReference.WebMercator,
+        );
+    let offsetDistance = offset;
+    if (isGeographic || spatialReference?.isWebMercator) {
+        const latitude = isGeographic
+            ? point.y
+            : webMercatorUtils.xyToLngLat(point.x, point.y)[1];
+        offsetDistance = offset / Math.cos((latitude * Math.PI) / 180);
+    }
+    if (isGeographic) {
+        segmentLine = webMercatorUtils.geographicToWebMercator(
+            segmentLine,
+        ) as __esri.Polyline;
+    }
+
+    let offsetLine = geometryEngine.offset(
+        segmentLine,
+        offsetDistance,
+        offsetUnit,
+    ) as __esri.Polyline;
+
+    if (!offsetLine?.paths.length) {
+        throw new Error(
+            `Could not offset the point at measure value ${measure}.`,
+        );
+    }
+    if (isGeographic) {
+        offsetLine = webMercatorUtils.webMercatorToGeographic(
+            offsetLine,
+        ) as __esri.Polyline;
+    }
+
+    const [offsetStart, offsetEnd] = offsetLine.paths[0];
+    const segmentLength = endPoint.m - startPoint.m;
+    const measurePercent =
+        segmentLength === 0
+            ? 0
+            : (targetMeasure - startPoint.m) / segmentLength;
+
+    return new Point({
+        x: (offsetEnd[0] - offsetStart[0]) * measurePercent + offsetStart[0],
+        y: (offsetEnd[1] - offsetStart[1]) * measurePercent + offsetStart[1],
+        z: point.z,
+        spatialReference: point.spatialReference,
+    });
+}
+
+/**
+ * Check whether a path of the polyline contains the measure value.
+ * @param measure The measure value of interest.
+ * @param polyline The polyline with m values.
+ */
+function polylineContainsMeasure(
+    measure: number,
+    polyline: __esri.Polyline,
+): boolean {
+    let firstVertex = 0;
+    for (const path of polyline.paths) {
+        const lastVertex = firstVertex + path.length - 1;
+        if (path.length > 1) {
+            const start = getPointAtVertex(firstVertex, polyline).m;
+            const end = getPointAtVertex(lastVertex, polyline).m;
+            if (
+                measure >= Math.min(start, end) &&
+                measure <= Math.max(start, end)
+            ) {
+                return true;
+            }
+        }
+        firstVertex = lastVertex + 1;
+    }
+
+    return false;
+}
+
+/**
+ * Find the route segment that contains a measure or station value.
+ * @param value The measure or station value of interest.
+ * @param routeSegments The segments of the route, as returned by getSegmentsForRoute.
+ * @param config The linear referencing config that describes the inline view.
+ * @param isStation When true, the value is a station rather than a measure.
+ * @throws An error if no segment contains the value.
+ */
+function findSegmentThatContainsValue(
+    value: number,
+    routeSegments: __esri.FeatureSet,
+    config: LinearReferencingConfig,
+    isStation: boolean,
+): Graphic {
+    const useStations = isStation && config.calculateStationUsingAttributes;
+
+    const segment = routeSegments.features.find((feature) => {
+        if (!feature.geometry) {
+            return false;
+        }
+        const [min, max] = useStations
+            ? getSegmentStationRange(feature, config)
+            : getSegmentMeasureRange(feature);
+        return value >= min && value <= max;
+    });
+
+    if (!segment) {
+        const valueType = isStation ? "Station" : "Measure";
+        throw new Error(`${valueType} value ${value} not found on the route.`);
+    }
+
+    return segment;
+}
+
+/**
+ * Calculate the station value of a measure along a segment. This is the reverse of
+ * getMeasureFromStation().
+ * @param measure The measure value of interest.
+ * @param segment The graphic that contains the measure/station information.
+ * @param config The linear referencing config that describes the inline view.
+ */
+export function getStationFromMeasure(
+    measure: number,
+    segment: Graphic,
+    config: LinearReferencingConfig,
+): number {
+    // Just use the measure unless configured otherwise.
+    if (!config.calculateStationUsingAttributes) {
+        return measure;
+    }
+
+    const [startStation, endStation] = getSegmentStationRange(segment, config);
+    const [startMeasure, endMeasure] = getSegmentMeasureRange(segment);
+
+    const lineLength = endMeasure - startMeasure;
+    if (lineLength === 0) {
+        return startStation;
+    }
+
+    const percent = (measure - startMeasure) / lineLength;
+    return (endStation - startStation) * percent + startStation;
+}
+
+/**
+ * Get the smallest and largest m value of a segment.
+ * @param segment The graphic that contains the measure information.
+ */
+function getSegmentMeasureRange(segment: Graphic): [number, number] {
+    const polyline = segment.geometry as __esri.Polyline;
+    const first = getPointAtVertex(0, polyline).m;
+    const last = getPointAtVertex(getNumberOfVertex(polyline) - 1, polyline).m;
+    return [Math.min(first, last), Math.max(first, last)];
+}
+
+/**
+ * Get the smallest and largest station value of a segment from its attributes.
+ * @param segment The graphic that contains the station information.
+ * @param config The linear referencing config that describes the inline view.
+ */
+function getSegmentStationRange(
+    segment: Graphic,
+    config: LinearReferencingConfig,
+): [number, number] {
+    const begin = segment.attributes[
+        config.segmentsBeginStationField
+    ] as number;
+    const end = segment.attributes[config.segmentsEndStationField] as number;
+    return [Math.min(begin, end), Math.max(begin, end)];
+}
+
 /**
  * Given a measure value and a line segment that contains the measure value, get the coordinate.
  * @param targetMeasure the measure value where to create the point.
@@ -785,7 +1690,7 @@ export function createPointAtTargetMeasure(
         return new Point({
             x: lineSegment.endPoint.x,
             y: lineSegment.endPoint.y,
-            z: lineSegment.startPoint.z,
+            z: lineSegment.endPoint.z,
             spatialReference: lineSegment.endPoint.spatialReference,
         });
     } else {
@@ -800,10 +1705,17 @@ export function createPointAtTargetMeasure(
             (lineSegment.endPoint.y - lineSegment.startPoint.y) *
                 measurePercent +
             lineSegment.startPoint.y;
+        // Only interpolate the elevation when both ends have one.
+        const z =
+            lineSegment.startPoint.z != null && lineSegment.endPoint.z != null
+                ? (lineSegment.endPoint.z - lineSegment.startPoint.z) *
+                      measurePercent +
+                  lineSegment.startPoint.z
+                : lineSegment.startPoint.z;
         return new Point({
             x: x,
             y: y,
-            z: lineSegment.startPoint.z,
+            z: z,
             spatialReference: lineSegment.startPoint.spatialReference,
         });
     }
@@ -824,6 +1736,68 @@ function clamp(value: number, min: number, max: number): number {
     return value;
 }
 
+/** The names of the fields that calculateMValuesFromCoordinates() writes its results to. */
+export interface MeasureOutputFields {
+    /** The field the m value is assigned to. */
+    mValueFieldName: string;
+
+    /** The field the station value is assigned to. */
+    stationFieldName?: string;
+
+    /** The field the distance from the route is assigned to. */
+    offsetFieldName?: string;
+
+    /** The field the side of the route, "left" or "right", is assigned to. */
+    sideFieldName?: string;
+
+    /** The field the reason is assigned to for features that could not be matched. */
+    unmatchedReasonFieldName: string;
+
+    /** The field the ID of the matched route is assigned to. */
+    routeIdFieldName?: string;
+
+    /** The field the name of the matched route is assigned to. */
+    routeNameFieldName?: string;
+}
+
+/** Options that control how calculateMValuesFromCoordinates() matches features to routes. */
+export interface MeasureOptions {
+    /**
+     * When provided, each feature is matched to the nearest route within this distance,
+     * in the measure unit of the segments, instead of the current route.
+     */
+    searchTolerance?: number;
+
+    /** The unit the M values and distances are converted to. Defaults to the measure unit of the segments. */
+    outputUnit?: MeasureUnits;
+
+    /** When provided, features further than this distance from the route, in the output unit, are not matched. */
+    maxDistance?: number;
+
+    /** Options that control how the route segments are retrieved. */
+    queryOptions?: QueryOptions;
+}
+
+/** The reason a feature could not be matched to a route. */
+export type UnmatchedReason =
+    | "null-geometry"
+    | "missing-coordinates"
+    | "no-route"
+    | "no-measure"
+    | "too-far";
+
+/** The location of a point relative to the segment it is nearest to. */
+interface PointMeasureResult {
+    /** The measure value of the nearest coordinate on the segment. */
+    measure: number;
+
+    /** The distance from the point to the segment. */
+    distance: number;
+
+    /** When true, the point is to the right of the segment in the direction of increasing measure. */
+    isRightSide: boolean;
+}
+
 /** A straight line made up of two points. */
 export interface LineSegment {
     startPoint: __esri.Point;
@@ -0,0 +1,73 @@
+import SpatialReference from "@arcgis/core/geometry/SpatialReference";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { RouteInfo } from "../models/RouteInfo";
+import { StationInfo } from "../models/StationInfo";
+import {
+    getRouteInfoWithMeasures,
+    getSegmentsForRoute,
+    getStationInfoForRoute,
+} from "./geometryUtils";
+
+/**
+ * Make a route the current route of VertiGIS Inline. The current range is reset to the whole route.
+ * @param inlineManager The Inline Manager of the current instance of VertiGIS Inline.
+ * @param routeId The ID of the route to navigate to.
+ * @returns The RouteInfo of the new current route.
+ * @throws An error if the route does not exist.
+ */
+export async function navigateToRoute(
+    inlineManager: any,
+    routeId: string,
+): Promise<RouteInfo> {
+    const lrs =
+        inlineManager.linearReferencingConfig as LinearReferencingConfig;
+    const sr = inlineManager.spatialReference as SpatialReference;
+
+    // Querying the segments fails if the route does not exist.
+    const routeInfo = await getRouteInfoWithMeasures(lrs, routeId, sr);
+    // Reuses the segments queried above when the segment cache is enabled.
+    const route = await getSegmentsForRoute(lrs, routeId, sr);
+    const { min, max } = routeInfo.routeMeasureInfo!;
+
+    inlineManager.currentRoute = routeInfo;
+    inlineManager.currentRange = {
+        beginStation: getStationInfoForRoute(min, route, lrs, false),
+        endStation: getStationInfoForRoute(max, route, lrs, false),
+    };
+
+    return routeInfo;
+}
+
+/**
+ * Set the current range of VertiGIS Inline.
+ * @param inlineManager The Inline Manager of the current instance of VertiGIS Inline.
+ * @param routeId The ID of the route the range is on. Switches routes if it is not the current route.
+ * @param begin The measure or station value where the range begins.
+ * @param end The measure or station value where the range ends.
+ * @param isStation When true, the begin and end values are stations rather than measures.
+ * @returns The begin and end StationInfo of the new current range.
+ * @throws An error if the route does not exist or does not contain the values.
+ */
+export async function navigateToRange(
+    inlineManager: any,
+    routeId: string,
+    begin: number,
+    end: number,
+    isStation: boolean,
+): Promise<{ beginStation: StationInfo; endStation: StationInfo }> {
+    const lrs =
+        inlineManager.linearReferencingConfig as LinearReferencingConfig;
+    const sr = inlineManager.spatialReference as SpatialReference;
+
+    const route = await getSegmentsForRoute(lrs, routeId, sr);
+    const beginStation = getStationInfoForRoute(begin, route, lrs, isStation);
+    const endStation = getStationInfoForRoute(end, route, lrs, isStation);
+
+    if (`${inlineManager.currentRoute?.routeId}` !== `${routeId}`) {
+        inlineManager.currentRoute = beginStation.routeInfo;
+    }
+
+    inlineManager.currentRange = { beginStation, endStation };
+
+    return { beginStation, endStation };
+}
@@ -0,0 +1,154 @@
+import { jest } from "@jest/globals";
+import type { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+
+// @arcgis/core is an ES module, so the modules are mocked before queryUtils is imported.
+const executeQueryJSON = jest.fn<(url: string, query: any) => Promise<any>>();
+const executeForIds = jest.fn<(url: string, query: any) => Promise<number[]>>();
+const request = jest.fn<(url: string, options?: any) => Promise<any>>();
+
+jest.unstable_mockModule("@arcgis/core/rest/query", () => ({
+    executeQueryJSON,
+    executeForIds,
+}));
+jest.unstable_mockModule("@arcgis/core/request", () => ({
+    default: request,
+}));
+
+const { queryForSegments } = await import("./queryUtils");
+
+const config = {
+    centerlineUrl: "https://example.com/MapServer/0",
+    routeIdField: "ROUTE_ID",
+    routeIdFieldType: "esriFieldTypeString",
+    routeNameField: "ROUTE_NAME",
+    segmentsMeasureUnit: "feet",
+} as LinearReferencingConfig;
+
+const spatialReference = { wkid: 26917 } as __esri.SpatialReference;
+
+/** Create a response of a query with the given object IDs as features. */
+function createResponse(objectIds: number[], exceededTransferLimit: boolean) {
+    return {
+        features: objectIds.map((id) => ({ attributes: { OBJECTID: id } })),
+        exceededTransferLimit,
+    };
+}
+
+function getObjectIds(result: __esri.FeatureSet): number[] {
+    return result.features.map(
+        (feature) => feature.attributes.OBJECTID as number,
+    );
+}
+
+describe("queryForSegments", () => {
+    beforeEach(() => {
+        executeQueryJSON.mockReset();
+        executeForIds.mockReset();
+        request.mockReset();
+    });
+
+    it("returns the results when the transfer limit is not exceeded", async () => {
+        executeQueryJSON.mockResolvedValueOnce(createResponse([1, 2], false));
+
+        const result = await queryForSegments(config, "A", spatialReference);
+
+        expect(getObjectIds(result)).toEqual([1, 2]);
+        expect(request).not.toHaveBeenCalled();
+    });
+
+    it("pages with resultOffset when the service supports it", async () => {
+        request.mockResolvedValueOnce({
+            data: {
+                advancedQueryCapabilities: { supportsPagination: true },
+                objectIdField: "OBJECTID",
+            },
+        });
+        const pages = [
+            createResponse([1, 2], true),
+            createResponse([1, 2], true),
+            createResponse([3, 4], true),
+            createResponse([5], false),
+        ];
+        // The page query is reused, so its offset is recorded at each call.
+        const offsets: (number | undefined)[] = [];
+        executeQueryJSON.mockImplementation((url, query) => {
+            offsets.push((query as __esri.Query).start);
+            return Promise.resolve(pages.shift());
+        });
+        const onProgress = jest.fn();
+
+        const result = await queryForSegments(config, "A", spatialReference, {
+            onProgress,
+        });
+
+        expect(getObjectIds(result)).toEqual([1, 2, 3, 4, 5]);
+        expect(result.exceededTransferLimit).toBe(false);
+        expect(offsets.slice(1)).toEqual([0, 2, 4]);
+        expect(
+            (executeQueryJSON.mock.calls[1][1] as __esri.Query).orderByFields,
+        ).toEqual(["OBJECTID"]);
+        expect(onProgress.mock.calls).toEqual([[2], [2], [4], [5]]);
+    });
+
+    it("retrieves batches of object IDs when the service can't page", async () => {
+        request.mockResolvedValueOnce({ data: {} });
+        executeQueryJSON
+            .mockResolvedValueOnce(createResponse([1, 2], true))
+            .mockResolvedValueOnce(createResponse([1, 2], false))
+            .mockResolvedValueOnce(createResponse([3, 4], false))
+            .mockResolvedValueOnce(createResponse([5], false));
+        executeForIds.mockResolvedValueOnce([1, 2, 3, 4, 5]);
+
+        const result = await queryForSegments(config, "A", spatialReference);
+
+        expect(getObjectIds(result)).toEqual([1, 2, 3, 4, 5]);
+        const batchQueries = executeQueryJSON.mock.calls
+            .slice(1)
+            .map(([, query]) => query as __esri.Query);
+        expect(batchQueries.map((query) => query.objectIds)).toEqual([
+            [1, 2],
+            [3, 4],
+            [5],
+        ]);
+    });
+
+    it("fails when more features than the maximum are found", async () => {
+        request.mockResolvedValueOnce({
+            data: { advancedQueryCapabilities: { supportsPagination: true } },
+        });
+        executeQueryJSON
+            .mockResolvedValueOnce(createResponse([1, 2], true))
+            .mockResolvedValueOnce(createResponse([1, 2], true))
+            .mockResolvedValueOnce(createResponse([3, 4], true));
+
+        await expect(
+            queryForSegments(config, "A", spatialReference, {
+                maxFeatureCount: 3,
+            }),
+        ).rejects.toThrow("more than the maximum of 3 features");
+        // Paging stops at the page that goes over the maximum.
+        expect(executeQueryJSON).toHaveBeenCalledTimes(3);
+    });
+
+    it("fails when the object IDs are more than the maximum", async () => {
+        request.mockResolvedValueOnce({ data: {} });
+        executeQueryJSON.mockResolvedValueOnce(createResponse([1, 2], true));
+        executeForIds.mockResolvedValueOnce([1, 2, 3, 4, 5]);
+
+        await expect(
+            queryForSegments(config, "A", spatialReference, {
+                maxFeatureCount: 4,
+            }),
+        ).rejects.toThrow("more than the maximum of 4 features");
+        expect(executeQueryJSON).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails when the layer info can't be retrieved", async () => {
+        request.mockRejectedValueOnce(new Error("Unauthorized"));
+        executeQueryJSON.mockResolvedValueOnce(createResponse([1, 2], true));
+
+        await expect(
+            queryForSegments(config, "A", spatialReference),
+        ).rejects.toThrow("Could not get layer info");
+    });
+});
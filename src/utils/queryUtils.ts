@@ -1,8 +1,15 @@
+import Multipoint from "@arcgis/core/geometry/Multipoint";
+import Point from "@arcgis/core/geometry/Point";
 import SpatialReference from "@arcgis/core/geometry/SpatialReference";
 import request from "@arcgis/core/request";
-import { executeQueryJSON } from "@arcgis/core/rest/query";
+import { executeForIds, executeQueryJSON } from "@arcgis/core/rest/query";
+import FeatureSet from "@arcgis/core/rest/support/FeatureSet";
 import Query from "@arcgis/core/rest/support/Query";
-import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import {
+    LinearReferencingConfig,
+    MeasureUnits,
+} from "../models/LinearReferencingConfig";
+import { getSegmentCache, SegmentCache } from "./segmentCache";
 
 /**
  * Executes a query to retrieve segments based on the provided configuration and route ID.
@@ -10,34 +17,272 @@ import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
  * @param config - The configuration object containing linear referencing settings.
  * @param routeId - The ID of the route to query segments for.
  * @param spatialReference - The spatial reference to use for the query results.
+ * @param options - Options that control how large results are retrieved.
  * @returns A promise that resolves to the features retrieved by the query.
- * @throws An error if the query transfer limit is exceeded.
+ * @throws An error if more features than the maximum feature count are found.
  */
 export async function queryForSegments(
     config: LinearReferencingConfig,
     routeId: string,
     spatialReference: SpatialReference,
+    options?: QueryOptions,
 ) {
     const queryUrl = await createCenterlineQuery(config);
 
     const quote = getQuoteForFieldType(config.routeIdFieldType);
 
-    const query = new Query();
-    query.outSpatialReference = spatialReference;
-    query.returnGeometry = true;
+    // Reuse the segments of recently queried routes.
+    const cache = getSegmentCache();
+    const cacheKey = SegmentCache.createKey(
+        queryUrl,
+        routeId,
+        spatialReference,
+        config.gdbVersion,
+    );
+    const cached = cache?.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    const query = createSegmentsQuery(config, spatialReference);
     query.where = config.routeIdField + " = " + quote + routeId + quote;
-    query.outFields = getSegmentsFieldsFromConfig(config);
-    config.gdbVersion && (query.gdbVersion = config.gdbVersion);
 
-    const features = await executeQueryJSON(queryUrl, query);
-    // Fail if transfer limit exceeded
-    if (features.exceededTransferLimit) {
+    const features = await executeQueryWithPaging(queryUrl, query, options);
+    cache?.set(cacheKey, routeId, features);
+
+    return features;
+}
+
+/**
+ * Executes a query to retrieve the segments of all routes within a distance of any of a set of points.
+ *
+ * @param config - The configuration object containing linear referencing settings.
+ * @param points - The points to search around. They must share a spatial reference.
+ * @param distance - The search distance around each point.
+ * @param unit - The unit of the search distance.
+ * @param spatialReference - The spatial reference to use for the query results.
+ * @param options - Options that control how large results are retrieved.
+ * @returns A promise that resolves to the features retrieved by the query.
+ * @throws An error if more features than the maximum feature count are found.
+ */
+export async function queryForSegmentsNearPoints(
+    config: LinearReferencingConfig,
+    points: Point[],
+    distance: number,
+    unit: MeasureUnits,
+    spatialReference: SpatialReference,
+    options?: QueryOptions,
+) {
+    const queryUrl = await createCenterlineQuery(config);
+
+    const query = createSegmentsQuery(config, spatialReference);
+    query.geometry = new Multipoint({
+        points: points.map((point) => [point.x, point.y]),
+        spatialReference: points[0].spatialReference,
+    });
+    query.spatialRelationship = "intersects";
+    // Yards are not supported by the query distance units.
+    query.distance = unit === "yards" ? distance * 3 : distance;
+    query.units = unit === "yards" ? "feet" : unit;
+
+    return executeQueryWithPaging(queryUrl, query, options);
+}
+
+/**
+ * Executes a query to retrieve the segments of the routes that match the search values.
+ * Text values match any part of the field value, ignoring case.
+ *
+ * @param config - The configuration object containing linear referencing settings.
+ * @param search - The values to search the route name, series and additional fields for.
+ * @param spatialReference - The spatial reference to use for the query results.
+ * @param options - Options that control how large results are retrieved.
+ * @returns A promise that resolves to the features retrieved by the query.
+ * @throws An error if there are no search values for the configured fields, if the additional
+ * value is not a number for a numeric field, or if more features than the maximum feature count are found.
+ */
+export async function queryForRoutes(
+    config: LinearReferencingConfig,
+    search: RouteSearch,
+    spatialReference: SpatialReference,
+    options?: QueryOptions,
+) {
+    const queryUrl = await createCenterlineQuery(config);
+
+    const clauses: string[] = [];
+
+    if (search.routeName && config.routeNameField) {
+        clauses.push(createLikeClause(config.routeNameField, search.routeName));
+    }
+
+    if (search.series && config.routeSeriesField) {
+        clauses.push(createLikeClause(config.routeSeriesField, search.series));
+    }
+
+    if (search.additionalValue && config.routeSelectorAdditionalField) {
+        const quote = getQuoteForFieldType(
+            config.routeSelectorAdditionalFieldType,
+        );
+        if (quote) {
+            clauses.push(
+                createLikeClause(
+                    config.routeSelectorAdditionalField,
+                    search.additionalValue,
+                ),
+            );
+        } else {
+            const value = Number(search.additionalValue);
+            if (!`${search.additionalValue}`.trim() || !isFinite(value)) {
+                throw new Error(
+                    `"${search.additionalValue}" is not a valid value for the ${config.routeSelectorAdditionalField} field.`,
+                );
+            }
+            clauses.push(config.routeSelectorAdditionalField + " = " + value);
+        }
+    }
+
+    // Without a search value every route would be returned.
+    if (!clauses.length) {
+        throw new Error("At least one search value is required.");
+    }
+
+    const query = createSegmentsQuery(config, spatialReference);
+    query.where = clauses.join(" AND ");
+    query.outFields = getDistinctRouteInfoFieldsForSegments(config);
+
+    return executeQueryWithPaging(queryUrl, query, options);
+}
+
+/** The number of features a query can retrieve when no maximum is provided. */
+export const DEFAULT_MAX_FEATURE_COUNT = 100000;
+
+/** Options that control how large query results are retrieved. */
+export interface QueryOptions {
+    /**
+     * The maximum number of features to retrieve. The query fails if more are found.
+     * Default is DEFAULT_MAX_FEATURE_COUNT.
+     */
+    maxFeatureCount?: number;
+
+    /** Called with the number of features retrieved so far, after each page of results. */
+    onProgress?: (featureCount: number) => void;
+}
+
+/**
+ * Executes a query and retrieves all the results, even when there are more than the
+ * service returns in a single response. The results are paged with resultOffset when
+ * the service supports it, otherwise they are retrieved in batches of object IDs.
+ */
+async function executeQueryWithPaging(
+    queryUrl: string,
+    query: Query,
+    options: QueryOptions = {},
+): Promise<FeatureSet> {
+    const maxFeatureCount =
+        options.maxFeatureCount ?? DEFAULT_MAX_FEATURE_COUNT;
+    const checkFeatureCount = (featureCount: number) => {
+        if (featureCount > maxFeatureCount) {
+            throw new Error(
+                `Query returned more than the maximum of ${maxFeatureCount} features.`,
+            );
+        }
+        options.onProgress?.(featureCount);
+    };
+
+    const result = await executeQueryJSON(queryUrl, query);
+    checkFeatureCount(result.features.length);
+
+    if (!result.exceededTransferLimit) {
+        return result;
+    }
+
+    // The first response tells us how many features the service returns at a time.
+    const pageSize = result.features.length;
+    if (pageSize === 0) {
         throw new Error("Query transfer limit exceeded.");
+    }
+
+    const layerInfo = await getLayerInfo(queryUrl);
+
+    if (layerInfo?.advancedQueryCapabilities?.supportsPagination) {
+        // Order the results so that the pages don't overlap.
+        const pageQuery = query.clone();
+        if (layerInfo.objectIdField) {
+            pageQuery.orderByFields = [layerInfo.objectIdField];
+        }
+        pageQuery.num = pageSize;
+        pageQuery.start = 0;
+
+        result.features = [];
+        let page: FeatureSet;
+        do {
+            page = await executeQueryJSON(queryUrl, pageQuery);
+            result.features.push(...page.features);
+            checkFeatureCount(result.features.length);
+            pageQuery.start += page.features.length;
+        } while (page.exceededTransferLimit && page.features.length > 0);
     } else {
-        return features;
+        const objectIds = await executeForIds(queryUrl, query);
+        checkFeatureCount(objectIds.length);
+
+        result.features = [];
+        for (let i = 0; i < objectIds.length; i += pageSize) {
+            const batchQuery = query.clone();
+            batchQuery.objectIds = objectIds.slice(i, i + pageSize);
+            const batch = await executeQueryJSON(queryUrl, batchQuery);
+            result.features.push(...batch.features);
+            options.onProgress?.(result.features.length);
+        }
+    }
+
+    result.exceededTransferLimit = false;
+    return result;
+}
+
+// Query the service to get the description of the layer being queried. Paging depends on it,
+// so a failure is thrown rather than guessing how the service pages.
+async function getLayerInfo(queryUrl: string): Promise<any> {
+    try {
+        const response = await request(queryUrl.split("?")[0], {
+            query: { f: "json" },
+        });
+        return response.data;
+    } catch (error: any) {
+        throw new Error(
+            `Could not get layer info for ${queryUrl}: ${error.message}`,
+        );
     }
 }
 
+/** The values used to search for routes. */
+export interface RouteSearch {
+    /** Part of the route name. */
+    routeName?: string;
+
+    /** Part of the route series. */
+    series?: string;
+
+    /** Part of the value of the additional route selection field. */
+    additionalValue?: string;
+}
+
+const createLikeClause = (field: string, value: string): string => {
+    const escaped = value.toUpperCase().replace(/'/g, "''");
+    return `UPPER(${field}) LIKE '%${escaped}%'`;
+};
+
+const createSegmentsQuery = (
+    config: LinearReferencingConfig,
+    spatialReference: SpatialReference,
+): Query => {
+    const query = new Query();
+    query.outSpatialReference = spatialReference;
+    query.returnGeometry = true;
+    query.outFields = getSegmentsFieldsFromConfig(config);
+    config.gdbVersion && (query.gdbVersion = config.gdbVersion);
+
+    return query;
+};
+
 const getSegmentsFieldsFromConfig = (
     config: LinearReferencingConfig,
 ): string[] => {
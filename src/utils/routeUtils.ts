@@ -0,0 +1,39 @@
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { RouteInfo } from "../models/RouteInfo";
+
+/**
+ * Build the RouteInfo that describes the route a segment belongs to.
+ * @param segment The segment graphic returned by the centerline query.
+ * @param config The linear referencing config that describes the inline view.
+ */
+export function getRouteInfoFromSegment(
+    segment: __esri.Graphic,
+    config: LinearReferencingConfig,
+): RouteInfo {
+    const attributes = segment.attributes ?? {};
+
+    const routeInfo: RouteInfo = {
+        routeId: attributes[config.routeIdField],
+        routeName: attributes[config.routeNameField],
+    };
+
+    if (config.routeSelectorAdditionalField) {
+        routeInfo.routeAdditionalField =
+            attributes[config.routeSelectorAdditionalField];
+    }
+
+    if (config.routeSelectorAdditionalFieldFunction) {
+        routeInfo.routeAdditionalFunction =
+            config.routeSelectorAdditionalFieldFunction;
+    }
+
+    if (config.previousRouteField) {
+        routeInfo.previousRouteId = attributes[config.previousRouteField];
+    }
+
+    if (config.nextRouteField) {
+        routeInfo.nextRouteId = attributes[config.nextRouteField];
+    }
+
+    return routeInfo;
+}
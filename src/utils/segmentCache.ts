@@ -0,0 +1,133 @@
+import { cloneFeatureSet } from "./featureSetUtils";
+
+/** The number of routes kept in the cache when no size is provided. */
+export const DEFAULT_SEGMENT_CACHE_SIZE = 50;
+
+/** How long, in milliseconds, a route is kept in the cache when no time to live is provided. */
+export const DEFAULT_SEGMENT_CACHE_TIME_TO_LIVE = 5 * 60 * 1000;
+
+interface SegmentCacheEntry {
+    /** The route the segments belong to. */
+    routeId: string;
+
+    /** The segments of the route. */
+    segments: __esri.FeatureSet;
+
+    /** The time, in milliseconds, after which the entry is no longer used. */
+    expires: number;
+}
+
+/**
+ * An in-memory cache of route segments. The least recently used route is removed
+ * when the cache is full. Copies are stored and returned, so callers are free to
+ * modify the segments they receive.
+ */
+export class SegmentCache {
+    private readonly entries = new Map<string, SegmentCacheEntry>();
+
+    constructor(
+        readonly maxSize: number = DEFAULT_SEGMENT_CACHE_SIZE,
+        readonly timeToLive: number = DEFAULT_SEGMENT_CACHE_TIME_TO_LIVE,
+    ) {}
+
+    /**
+     * Get the segments stored for a key, or undefined if there are none or they expired.
+     * @param key The key created by createKey().
+     */
+    get(key: string): __esri.FeatureSet | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        if (entry.expires <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        // Move the entry to the end so that it's the most recently used.
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        return cloneFeatureSet(entry.segments);
+    }
+
+    /**
+     * Store the segments of a route.
+     * @param key The key created by createKey().
+     * @param routeId The route the segments belong to.
+     * @param segments The segments of the route.
+     */
+    set(key: string, routeId: string, segments: __esri.FeatureSet): void {
+        if (this.maxSize <= 0) {
+            return;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, {
+            routeId,
+            segments: cloneFeatureSet(segments),
+            expires: Date.now() + this.timeToLive,
+        });
+
+        // Remove the least recently used entries.
+        while (this.entries.size > this.maxSize) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    /**
+     * Remove routes from the cache.
+     * @param routeId The route to remove. If not provided all routes are removed.
+     */
+    clear(routeId?: string): void {
+        if (routeId == null) {
+            this.entries.clear();
+            return;
+        }
+
+        for (const [key, entry] of this.entries) {
+            if (entry.routeId === `${routeId}`) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Create the key that identifies the segments of a route.
+     * @param centerlineUrl The url of the centerline layer.
+     * @param routeId The route ID.
+     * @param spatialReference The spatial reference of the segments.
+     * @param gdbVersion The version of the map service.
+     */
+    static createKey(
+        centerlineUrl: string,
+        routeId: string,
+        spatialReference: __esri.SpatialReference | undefined,
+        gdbVersion: string | undefined,
+    ): string {
+        const sr = spatialReference?.wkid ?? spatialReference?.wkt ?? "";
+        return [centerlineUrl, routeId, sr, gdbVersion ?? ""].join("|");
+    }
+}
+
+let segmentCache: SegmentCache | undefined;
+
+/**
+ * Create the shared segment cache. Called when the activity pack is loaded.
+ * @param maxSize The number of routes to keep in the cache.
+ * @param timeToLive How long, in milliseconds, to keep a route in the cache.
+ */
+export function initializeSegmentCache(
+    maxSize?: number,
+    timeToLive?: number,
+): SegmentCache {
+    segmentCache = new SegmentCache(maxSize, timeToLive);
+    return segmentCache;
+}
+
+/** Get the shared segment cache, or undefined if it has not been initialized. */
+export function getSegmentCache(): SegmentCache | undefined {
+    return segmentCache;
+}
@@ -0,0 +1,140 @@
+import * as geometryEngine from "@arcgis/core/geometry/geometryEngine";
+import Point from "@arcgis/core/geometry/Point";
+import Polyline from "@arcgis/core/geometry/Polyline";
+import Graphic from "@arcgis/core/Graphic";
+import { SegmentIndex } from "./spatialIndex";
+
+const spatialReference = { wkid: 26917 };
+
+/** A pseudo-random number generator with a fixed seed, so every run uses the same data. */
+function createRandom(seed: number): () => number {
+    return () => {
+        seed = (seed * 1664525 + 1013904223) % 4294967296;
+        return seed / 4294967296;
+    };
+}
+
+/** Create short lines scattered over a 10000 by 10000 area, with a few long ones across it. */
+function createFeatures(count: number, random: () => number): Graphic[] {
+    const features: Graphic[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const length = i % 50 === 0 ? 5000 : 100;
+        const x = random() * 10000;
+        const y = random() * 10000;
+        const angle = random() * Math.PI * 2;
+        features.push(
+            new Graphic({
+                geometry: new Polyline({
+                    paths: [
+                        [
+                            [x, y],
+                            [
+                                x + Math.cos(angle) * length,
+                                y + Math.sin(angle) * length,
+                            ],
+                        ],
+                    ],
+                    spatialReference,
+                }),
+            }),
+        );
+    }
+
+    return features;
+}
+
+function getDistance(feature: Graphic, point: Point): number | null {
+    const nearestPoint = geometryEngine.nearestCoordinate(
+        feature.geometry,
+        point,
+    );
+    return nearestPoint.isEmpty ? null : nearestPoint.distance;
+}
+
+/** Find the nearest feature by measuring the distance to every one. */
+function findNearestByScan(
+    features: Graphic[],
+    point: Point,
+): { nearest: Graphic | null; distance: number } {
+    let nearest: Graphic | null = null;
+    let nearestDistance = Infinity;
+
+    for (const feature of features) {
+        const distance = getDistance(feature, point);
+        if (distance != null && distance < nearestDistance) {
+            nearest = feature;
+            nearestDistance = distance;
+        }
+    }
+
+    return { nearest, distance: nearestDistance };
+}
+
+describe("SegmentIndex", () => {
+    it("finds the same nearest feature as measuring every feature", () => {
+        const random = createRandom(1);
+        const features = createFeatures(1000, random);
+        const index = new SegmentIndex(features);
+
+        let indexMeasurements = 0;
+        for (let i = 0; i < 100; i++) {
+            // Include points outside the area covered by the features.
+            const point = new Point({
+                x: random() * 14000 - 2000,
+                y: random() * 14000 - 2000,
+                spatialReference,
+            });
+
+            const expected = findNearestByScan(features, point);
+            const nearest = index.findNearest(point, (feature) => {
+                indexMeasurements++;
+                return getDistance(feature, point);
+            });
+
+            // Compare distances, as two features can be equally near.
+            expect(nearest).not.toBeNull();
+            expect(getDistance(nearest!, point)).toBe(expected.distance);
+        }
+
+        // The point of the index is to measure only a small part of the features.
+        expect(indexMeasurements).toBeLessThan((100 * features.length) / 10);
+    });
+
+    it("returns null when there are no features", () => {
+        const index = new SegmentIndex([]);
+        const point = new Point({ x: 0, y: 0, spatialReference });
+
+        expect(index.findNearest(point, () => 0)).toBeNull();
+    });
+
+    it("returns null when no distance can be measured", () => {
+        const index = new SegmentIndex(createFeatures(10, createRandom(2)));
+        const point = new Point({ x: 0, y: 0, spatialReference });
+
+        expect(index.findNearest(point, () => null)).toBeNull();
+    });
+
+    it("finds a feature when all features are at the same place", () => {
+        const features = [0, 1, 2].map(
+            () =>
+                new Graphic({
+                    geometry: new Polyline({
+                        paths: [
+                            [
+                                [5, 5],
+                                [5, 5],
+                            ],
+                        ],
+                        spatialReference,
+                    }),
+                }),
+        );
+        const index = new SegmentIndex(features);
+        const point = new Point({ x: 100, y: 100, spatialReference });
+
+        expect(features).toContain(
+            index.findNearest(point, (feature) => getDistance(feature, point)),
+        );
+    });
+});
@@ -0,0 +1,166 @@
+/** A feature and the bounding box of its geometry. */
+interface IndexedFeature {
+    feature: __esri.Graphic;
+    xmin: number;
+    ymin: number;
+    xmax: number;
+    ymax: number;
+}
+
+/**
+ * A grid index over the bounding boxes of a set of features, used to find the feature
+ * nearest to a point without measuring the distance to every feature.
+ */
+export class SegmentIndex {
+    private readonly items: IndexedFeature[] = [];
+    private readonly cells = new Map<number, number[]>();
+    private xmin = 0;
+    private ymin = 0;
+    private cellSize = 1;
+    private columns = 0;
+    private rows = 0;
+
+    constructor(features: __esri.Graphic[]) {
+        for (const feature of features) {
+            const extent = feature.geometry?.extent;
+            if (extent) {
+                this.items.push({
+                    feature,
+                    xmin: extent.xmin,
+                    ymin: extent.ymin,
+                    xmax: extent.xmax,
+                    ymax: extent.ymax,
+                });
+            }
+        }
+
+        if (this.items.length === 0) {
+            return;
+        }
+
+        let xmax = -Infinity;
+        let ymax = -Infinity;
+        this.xmin = Infinity;
+        this.ymin = Infinity;
+        for (const item of this.items) {
+            this.xmin = Math.min(this.xmin, item.xmin);
+            this.ymin = Math.min(this.ymin, item.ymin);
+            xmax = Math.max(xmax, item.xmax);
+            ymax = Math.max(ymax, item.ymax);
+        }
+        const width = xmax - this.xmin;
+        const height = ymax - this.ymin;
+
+        // Aim for about one feature per cell.
+        const gridSize = Math.ceil(Math.sqrt(this.items.length));
+        this.cellSize = Math.max(width, height) / gridSize || 1;
+        this.columns = Math.max(1, Math.ceil(width / this.cellSize));
+        this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+
+        this.items.forEach((item, index) => {
+            const [minColumn, minRow] = this.getCell(item.xmin, item.ymin);
+            const [maxColumn, maxRow] = this.getCell(item.xmax, item.ymax);
+
+            for (let row = minRow; row <= maxRow; row++) {
+                for (let column = minColumn; column <= maxColumn; column++) {
+                    const key = row * this.columns + column;
+                    if (!this.cells.has(key)) {
+                        this.cells.set(key, []);
+                    }
+                    this.cells.get(key)!.push(index);
+                }
+            }
+        });
+    }
+
+    /**
+     * Find the feature nearest to a point. Cells are searched in rings around the point
+     * until no unsearched feature can be closer than the nearest one found.
+     * @param point The point of interest.
+     * @param getDistance Measures the distance from the point to a feature, in the units of
+     * the spatial reference. Returns null if the distance can't be measured.
+     * @returns The nearest feature, or null if no distance could be measured.
+     */
+    findNearest(
+        point: __esri.Point,
+        getDistance: (feature: __esri.Graphic) => number | null,
+    ): __esri.Graphic | null {
+        if (this.items.length === 0) {
+            return null;
+        }
+
+        const [pointColumn, pointRow] = this.getCell(point.x, point.y);
+        const visited = new Set<number>();
+        let nearest: __esri.Graphic | null = null;
+        let nearestDistance = Infinity;
+
+        for (
+            let ring = 0, il = Math.max(this.columns, this.rows);
+            ring <= il;
+            ring++
+        ) {
+            // Every cell in this ring is at least (ring - 1) cells away from the point.
+            if ((ring - 1) * this.cellSize > nearestDistance) {
+                break;
+            }
+
+            for (let row = pointRow - ring; row <= pointRow + ring; row++) {
+                if (row < 0 || row >= this.rows) {
+                    continue;
+                }
+
+                // Only the cells on the edge of the ring are new.
+                const isEdgeRow = Math.abs(row - pointRow) === ring;
+                const step = isEdgeRow ? 1 : Math.max(1, 2 * ring);
+
+                for (
+                    let column = pointColumn - ring;
+                    column <= pointColumn + ring;
+                    column += step
+                ) {
+                    if (column < 0 || column >= this.columns) {
+                        continue;
+                    }
+
+                    const indexes = this.cells.get(row * this.columns + column);
+                    for (const index of indexes ?? []) {
+                        if (visited.has(index)) {
+                            continue;
+                        }
+                        visited.add(index);
+
+                        const item = this.items[index];
+                        if (getBoxDistance(item, point) > nearestDistance) {
+                            continue;
+                        }
+
+                        const distance = getDistance(item.feature);
+                        if (distance != null && distance < nearestDistance) {
+                            nearest = item.feature;
+                            nearestDistance = distance;
+                        }
+                    }
+                }
+            }
+        }
+
+        return nearest;
+    }
+
+    /** Get the column and row of the cell that contains a coordinate, clamped to the grid. */
+    private getCell(x: number, y: number): [number, number] {
+        const column = Math.floor((x - this.xmin) / this.cellSize);
+        const row = Math.floor((y - this.ymin) / this.cellSize);
+        return [
+            Math.min(Math.max(column, 0), this.columns - 1),
+            Math.min(Math.max(row, 0), this.rows - 1),
+        ];
+    }
+}
+
+/** The distance from a point to the bounding box of a feature. */
+function getBoxDistance(item: IndexedFeature, point: __esri.Point): number {
+    const dx = Math.max(item.xmin - point.x, 0, point.x - item.xmax);
+    const dy = Math.max(item.ymin - point.y, 0, point.y - item.ymax);
+    return Math.sqrt(dx * dx + dy * dy);
+}
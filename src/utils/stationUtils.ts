@@ -0,0 +1,88 @@
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+
+/**
+ * Format a station or measure value for display. When station notation is used
+ * the value is split at the "+", e.g. 1250.5 becomes "12+50.50".
+ * @param value The station or measure value to format.
+ * @param config The linear referencing config that describes the inline view.
+ */
+export function formatStation(
+    value: number,
+    config: LinearReferencingConfig,
+): string {
+    const decimalPlaces = config.decimalPlaces ?? 0;
+
+    if (!config.useStationNotation) {
+        return value.toFixed(decimalPlaces);
+    }
+
+    const digits = getStationDigits(config);
+    const precision = Math.pow(10, decimalPlaces);
+    const stationLength = Math.pow(10, digits) * precision;
+
+    // Work with rounded integers so that rounding can't produce values like "12+100.00".
+    const scaled = Math.round(Math.abs(value) * precision);
+    const whole = Math.floor(scaled / stationLength);
+    const remainder = ((scaled % stationLength) / precision).toFixed(
+        decimalPlaces,
+    );
+    const remainderWidth = digits + (decimalPlaces > 0 ? decimalPlaces + 1 : 0);
+    const sign = value < 0 && scaled !== 0 ? "-" : "";
+
+    return `${sign}${whole}+${remainder.padStart(remainderWidth, "0")}`;
+}
+
+/**
+ * Parse a station or measure value from text. Accepts both station notation,
+ * e.g. "12+50.50", and plain numbers, e.g. "1250.5".
+ * @param text The text to parse.
+ * @param config The linear referencing config that describes the inline view.
+ * @throws An error if the text is not a valid station or number.
+ */
+export function parseStation(
+    text: string,
+    config: LinearReferencingConfig,
+): number {
+    const value = `${text ?? ""}`.replace(/\s+/g, "");
+    const match = /^([+-]?)(\d*)\+(\d*(?:\.\d*)?)$/.exec(value);
+
+    if (match) {
+        const [, sign, whole, remainder] = match;
+        const stationLength = Math.pow(10, getStationDigits(config));
+        const remainderValue = remainder ? parseFloat(remainder) : 0;
+
+        if (!whole && !remainder) {
+            throw new Error(`"${text}" is not a valid station.`);
+        }
+
+        if (remainderValue >= stationLength) {
+            throw new Error(
+                `"${text}" is not a valid station. The value after the "+" must be less than ${stationLength}.`,
+            );
+        }
+
+        const station =
+            (whole ? parseInt(whole, 10) : 0) * stationLength + remainderValue;
+        return sign === "-" ? -station : station;
+    }
+
+    const number = value ? Number(value) : NaN;
+    if (!isFinite(number)) {
+        throw new Error(`"${text}" is not a valid station.`);
+    }
+
+    return number;
+}
+
+/**
+ * Get the number of digits after the "+" in station notation. If not configured, stations
+ * are 1000 units long when measured in meters (1+000) and 100 units long otherwise (1+00).
+ * @param config The linear referencing config that describes the inline view.
+ */
+function getStationDigits(config: LinearReferencingConfig): number {
+    if (config.stationDecimalPlaces != null) {
+        return config.stationDecimalPlaces;
+    }
+
+    return config.segmentsMeasureUnit === "meters" ? 3 : 2;
+}
@@ -0,0 +1,37 @@
+import { MeasureUnits } from "../models/LinearReferencingConfig";
+
+/** The number of meters in one of each measure unit. */
+const METERS_PER_UNIT: Record<MeasureUnits, number> = {
+    meters: 1,
+    feet: 0.3048,
+    kilometers: 1000,
+    miles: 1609.344,
+    "nautical-miles": 1852,
+    yards: 0.9144,
+};
+
+/**
+ * Convert a measure or length from one unit to another.
+ * @param value The value to convert.
+ * @param fromUnit The unit of the value.
+ * @param toUnit The unit to convert the value to.
+ */
+export function convertUnits(
+    value: number,
+    fromUnit: MeasureUnits,
+    toUnit: MeasureUnits,
+): number {
+    if (fromUnit === toUnit) {
+        return value;
+    }
+
+    const fromFactor = METERS_PER_UNIT[fromUnit];
+    const toFactor = METERS_PER_UNIT[toUnit];
+    if (fromFactor == null || toFactor == null) {
+        throw new Error(
+            `Cannot convert from "${fromUnit}" to "${toUnit}". Unsupported unit.`,
+        );
+    }
+
+    return (value * fromFactor) / toFactor;
+}
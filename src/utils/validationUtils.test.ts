@@ -0,0 +1,93 @@
+import Polyline from "@arcgis/core/geometry/Polyline";
+import Graphic from "@arcgis/core/Graphic";
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import { validateRouteMeasures } from "./validationUtils";
+
+const config = {
+    calculateStationUsingAttributes: false,
+    decimalPlaces: 3,
+    segmentsBeginStationField: "BEGIN_STATION",
+    segmentsEndStationField: "END_STATION",
+    segmentsMeasureUnit: "meters",
+} as LinearReferencingConfig;
+
+/** Create a straight segment along the x axis, measured by its length from the given m value. */
+function createSegment(
+    from: number,
+    to: number,
+    beginStation?: number,
+    endStation?: number,
+): Graphic {
+    return new Graphic({
+        geometry: new Polyline({
+            hasM: true,
+            paths: [
+                [
+                    [from, 0, from],
+                    [to, 0, to],
+                ],
+            ],
+            spatialReference: { wkid: 26917 },
+        }),
+        attributes: {
+            BEGIN_STATION: beginStation,
+            END_STATION: endStation,
+        },
+    });
+}
+
+function getIssueTypes(segments: Graphic[], configOverrides = {}): string[] {
+    return validateRouteMeasures(segments, {
+        ...config,
+        ...configOverrides,
+    }).map((issue) => issue.type);
+}
+
+describe("validateRouteMeasures", () => {
+    it("finds no problems in a continuous route", () => {
+        const segments = [
+            createSegment(0, 100, 0, 100),
+            createSegment(100, 250, 100, 250),
+        ];
+
+        expect(getIssueTypes(segments)).toEqual([]);
+    });
+
+    it("finds gaps and overlaps between segments", () => {
+        expect(
+            getIssueTypes([createSegment(0, 100), createSegment(110, 200)]),
+        ).toEqual(["gap"]);
+        expect(
+            getIssueTypes([createSegment(0, 100), createSegment(90, 200)]),
+        ).toEqual(["overlap"]);
+    });
+
+    it("finds stations offset from the measures", () => {
+        // The stations cover the same length as the measures, but start somewhere else.
+        const segments = [createSegment(0, 100, 1000, 1100)];
+
+        const issues = validateRouteMeasures(segments, config);
+
+        expect(issues.map((issue) => issue.type)).toEqual(["station-mismatch"]);
+        expect(issues[0].description).toBe(
+            "Stations 1000.000 to 1100.000 differ from the stations 0.000 to 100.000 at measures 0.000 to 100.000.",
+        );
+    });
+
+    it("accepts stations offset from the measures when stations come from the attributes", () => {
+        const segments = [createSegment(0, 100, 1000, 1100)];
+
+        expect(
+            getIssueTypes(segments, { calculateStationUsingAttributes: true }),
+        ).toEqual([]);
+    });
+
+    it("ignores station differences within the tolerance", () => {
+        const segments = [createSegment(0, 100, 0.5, 100.5)];
+
+        expect(
+            validateRouteMeasures(segments, config, { tolerance: 1 }),
+        ).toEqual([]);
+        expect(getIssueTypes(segments)).toEqual(["station-mismatch"]);
+    });
+});
@@ -0,0 +1,237 @@
+import { LinearReferencingConfig } from "../models/LinearReferencingConfig";
+import {
+    getLengthOfLine,
+    getLengthOfSegmentsUsingMValue,
+    getNumberOfVertex,
+    getPointAtVertex,
+    getStationFromMeasure,
+} from "./geometryUtils";
+
+/** The kinds of problem validateRouteMeasures() reports. */
+export type MeasureIssueType =
+    | "missing-m"
+    | "non-monotonic"
+    | "gap"
+    | "overlap"
+    | "length-mismatch"
+    | "station-mismatch";
+
+/** A problem with the measures of a route, and where it occurs. */
+export interface MeasureIssue {
+    /** The kind of problem. */
+    type: MeasureIssueType;
+
+    /** A description of the problem that includes the values involved. */
+    description: string;
+
+    /** The location of the problem. */
+    point: __esri.Point;
+
+    /** The measure value where the problem occurs, if it has one. */
+    measure?: number;
+}
+
+/** Options that control how strict validateRouteMeasures() is. */
+export interface MeasureValidationOptions {
+    /**
+     * Gaps, overlaps, decreasing measures and station differences smaller than this are
+     * ignored. In the measure unit of the segments. Default is 0.
+     */
+    tolerance?: number;
+
+    /**
+     * The largest allowed difference between the M length and the geometric length of a
+     * segment, as a percentage of the geometric length. Default is 1.
+     */
+    lengthTolerancePercent?: number;
+}
+
+/** A measured part of a segment: one path with its smallest and largest m values. */
+interface MeasuredPart {
+    min: number;
+    minPoint: __esri.Point;
+    max: number;
+    maxPoint: __esri.Point;
+}
+
+/**
+ * Check the measures of a route's segments for calibration problems. Each path of a
+ * segment is checked for missing and non-monotonic m values. The paths of all the
+ * segments are then ordered by measure to find gaps and overlaps. Each segment is also
+ * checked for an M length that differs from its geometric length, and for begin and end
+ * station attributes that differ from the stations calculated at its first and last m
+ * values.
+ * @param segments The segments of the route, as returned by getSegmentsForRoute.
+ * @param config The linear referencing config that describes the inline view.
+ * @param options Options that control how strict the checks are.
+ * @returns The problems found, ordered by the checks that found them.
+ */
+export function validateRouteMeasures(
+    segments: __esri.Graphic[],
+    config: LinearReferencingConfig,
+    options: MeasureValidationOptions = {},
+): MeasureIssue[] {
+    const tolerance = options.tolerance ?? 0;
+    const lengthTolerancePercent = options.lengthTolerancePercent ?? 1;
+    const format = (value: number) => value.toFixed(config.decimalPlaces ?? 3);
+
+    const issues: MeasureIssue[] = [];
+    const parts: MeasuredPart[] = [];
+
+    for (const segment of segments) {
+        const geometry = segment.geometry as __esri.Polyline;
+        if (!geometry?.paths?.length) {
+            continue;
+        }
+
+        let hasMissingM = false;
+        let firstVertex = 0;
+        for (const path of geometry.paths) {
+            const points: __esri.Point[] = [];
+            for (
+                let i = firstVertex, il = firstVertex + path.length;
+                i < il;
+                i++
+            ) {
+                const point = getPointAtVertex(i, geometry);
+                if (point.m == null || isNaN(point.m)) {
+                    hasMissingM = true;
+                    issues.push({
+                        type: "missing-m",
+                        description: `Vertex ${i} has no m value.`,
+                        point,
+                    });
+                } else {
+                    points.push(point);
+                }
+            }
+            firstVertex += path.length;
+
+            if (points.length < 2) {
+                continue;
+            }
+
+            // The measures of a path must keep going the same way as from its first vertex to its last.
+            const first = points[0];
+            const last = points[points.length - 1];
+            const direction = Math.sign(last.m - first.m);
+            if (direction !== 0) {
+                for (let i = 1; i < points.length; i++) {
+                    const change = (points[i].m - points[i - 1].m) * direction;
+                    if (change < -tolerance) {
+                        issues.push({
+                            type: "non-monotonic",
+                            description: `Measure goes from ${format(points[i - 1].m)} to ${format(points[i].m)} against the direction of the path.`,
+                            point: points[i],
+                            measure: points[i].m,
+                        });
+                    }
+                }
+            }
+
+            parts.push(
+                direction < 0
+                    ? {
+                          min: last.m,
+                          minPoint: last,
+                          max: first.m,
+                          maxPoint: first,
+                      }
+                    : {
+                          min: first.m,
+                          minPoint: first,
+                          max: last.m,
+                          maxPoint: last,
+                      },
+            );
+        }
+
+        // The lengths can't be compared when some of the measures are missing.
+        if (hasMissingM) {
+            continue;
+        }
+
+        const segmentPoint = getPointAtVertex(0, geometry);
+
+        const mLength = getLengthOfSegmentsUsingMValue([segment]);
+        const geometricLength = getLengthOfLine(
+            geometry,
+            config.segmentsMeasureUnit,
+        );
+        const lengthDifference = Math.abs(mLength - geometricLength);
+        if (
+            lengthDifference >
+            (geometricLength * lengthTolerancePercent) / 100
+        ) {
+            issues.push({
+                type: "length-mismatch",
+                description: `M length ${format(mLength)} differs from the geometric length ${format(geometricLength)} by ${format(lengthDifference)} ${config.segmentsMeasureUnit}.`,
+                point: segmentPoint,
+                measure: segmentPoint.m,
+            });
+        }
+
+        const beginStation = config.segmentsBeginStationField
+            ? (segment.attributes[config.segmentsBeginStationField] as
+                  number | null)
+            : null;
+        const endStation = config.segmentsEndStationField
+            ? (segment.attributes[config.segmentsEndStationField] as
+                  number | null)
+            : null;
+        if (beginStation != null && endStation != null) {
+            // The stations must match the ones calculated at the measures where the segment begins and ends.
+            const fromMeasure = segmentPoint.m;
+            const toMeasure = getPointAtVertex(
+                getNumberOfVertex(geometry) - 1,
+                geometry,
+            ).m;
+            const fromStation = getStationFromMeasure(
+                fromMeasure,
+                segment,
+                config,
+            );
+            const toStation = getStationFromMeasure(toMeasure, segment, config);
+            if (
+                Math.abs(beginStation - fromStation) > tolerance ||
+                Math.abs(endStation - toStation) > tolerance
+            ) {
+                issues.push({
+                    type: "station-mismatch",
+                    description: `Stations ${format(beginStation)} to ${format(endStation)} differ from the stations ${format(fromStation)} to ${format(toStation)} at measures ${format(fromMeasure)} to ${format(toMeasure)}.`,
+                    point: segmentPoint,
+                    measure: segmentPoint.m,
+                });
+            }
+        }
+    }
+
+    // Walk the parts in measure order. Each part should start where the parts before it end.
+    parts.sort((a, b) => a.min - b.min);
+    let end: MeasuredPart | undefined;
+    for (const part of parts) {
+        if (end) {
+            if (part.min - end.max > tolerance) {
+                issues.push({
+                    type: "gap",
+                    description: `No segment covers the measures from ${format(end.max)} to ${format(part.min)}.`,
+                    point: end.maxPoint,
+                    measure: end.max,
+                });
+            } else if (end.max - part.min > tolerance) {
+                issues.push({
+                    type: "overlap",
+                    description: `More than one segment covers the measures from ${format(part.min)} to ${format(Math.min(end.max, part.max))}.`,
+                    point: part.minPoint,
+                    measure: part.min,
+                });
+            }
+        }
+
+        if (!end || part.max > end.max) {
+            end = part;
+        }
+    }
+
+    return issues;
+}